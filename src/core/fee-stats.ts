@@ -0,0 +1,74 @@
+/**
+ * USDFC v0 - Fee Stats
+ * Borrowing and redemption fee rates implied by the TroveManager base rate, aggregated daily
+ */
+
+import { BigInt, BigDecimal } from "@graphprotocol/graph-ts"
+import { DailyFeeStats } from "../../generated/schema"
+import {
+  ZERO_BI,
+  ONE_BI,
+  ONE_BD,
+  HUNDRED_BD,
+  DECIMAL_PRECISION_BD,
+  BORROWING_FEE_FLOOR,
+  MAX_BORROWING_FEE,
+  REDEMPTION_FEE_FLOOR
+} from "../utils/constants"
+import { getDayId, getDayString, getDayStartTimestamp } from "../utils/helpers"
+
+/**
+ * Borrowing fee (%) for a base rate: floor + base rate, capped at the maximum fee
+ */
+export function calculateBorrowingFeeRate(baseRate: BigInt): BigDecimal {
+  let rate = BORROWING_FEE_FLOOR.plus(baseRate.toBigDecimal().div(DECIMAL_PRECISION_BD))
+  if (rate.gt(MAX_BORROWING_FEE)) rate = MAX_BORROWING_FEE
+  return rate.times(HUNDRED_BD)
+}
+
+/**
+ * Redemption fee (%) for a base rate: floor + base rate, capped at 100%
+ */
+export function calculateRedemptionFeeRate(baseRate: BigInt): BigDecimal {
+  let rate = REDEMPTION_FEE_FLOOR.plus(baseRate.toBigDecimal().div(DECIMAL_PRECISION_BD))
+  if (rate.gt(ONE_BD)) rate = ONE_BD
+  return rate.times(HUNDRED_BD)
+}
+
+/**
+ * Load the day's fee stats, opening them at the current base rate
+ */
+export function getOrCreateDailyFeeStats(timestamp: BigInt, currentBaseRate: BigInt): DailyFeeStats {
+  let dayId = getDayId(timestamp)
+  let daily = DailyFeeStats.load(dayId)
+  if (daily == null) {
+    daily = new DailyFeeStats(dayId)
+    daily.date = getDayString(timestamp)
+    daily.timestamp = getDayStartTimestamp(timestamp)
+    daily.openBaseRate = currentBaseRate
+    daily.highBaseRate = currentBaseRate
+    daily.lowBaseRate = currentBaseRate
+    daily.closeBaseRate = currentBaseRate
+    daily.baseRateUpdateCount = ZERO_BI
+    daily.borrowingFeeRate = calculateBorrowingFeeRate(currentBaseRate)
+    daily.redemptionFeeRate = calculateRedemptionFeeRate(currentBaseRate)
+    daily.borrowingFeesPaid = ZERO_BI
+    daily.redemptionFeesPaid = ZERO_BI
+    daily.redemptionCount = ZERO_BI
+    daily.usdfcRedeemed = ZERO_BI
+  }
+  daily.lastUpdateTimestamp = timestamp
+  return daily
+}
+
+/**
+ * Fold a base rate update into the day's range and closing fee rates
+ */
+export function recordDailyBaseRate(daily: DailyFeeStats, baseRate: BigInt): void {
+  if (baseRate.gt(daily.highBaseRate)) daily.highBaseRate = baseRate
+  if (baseRate.lt(daily.lowBaseRate)) daily.lowBaseRate = baseRate
+  daily.closeBaseRate = baseRate
+  daily.baseRateUpdateCount = daily.baseRateUpdateCount.plus(ONE_BI)
+  daily.borrowingFeeRate = calculateBorrowingFeeRate(baseRate)
+  daily.redemptionFeeRate = calculateRedemptionFeeRate(baseRate)
+}
@@ -0,0 +1,144 @@
+/**
+ * USDFC v0 - Oracle State
+ * Persistent FIL/USD oracle state shared by the PriceFeed and protocol handlers
+ */
+
+import { BigInt, BigDecimal } from "@graphprotocol/graph-ts"
+import { OracleState } from "../../generated/schema"
+import {
+  ZERO_BI,
+  ONE_BI,
+  ZERO_BD,
+  DECIMAL_PRECISION_BD,
+  ORACLE_STATE_ID,
+  ORACLE_STATUSES,
+  ORACLE_STATUS_WORKING
+} from "../utils/constants"
+
+/**
+ * Load the oracle state, creating an empty one if no price has been seen yet
+ */
+export function getOrCreateOracleState(): OracleState {
+  let oracle = OracleState.load(ORACLE_STATE_ID)
+  if (oracle == null) {
+    oracle = new OracleState(ORACLE_STATE_ID)
+    oracle.lastGoodPrice = ZERO_BI
+    oracle.lastGoodPriceUSD = ZERO_BD
+    oracle.lastUpdateBlock = ZERO_BI
+    oracle.lastUpdateTimestamp = ZERO_BI
+    oracle.updateCount = ZERO_BI
+    oracle.returnVariance = ZERO_BD
+    oracle.volatility = ZERO_BD
+    // The PriceFeed starts on Chainlink without emitting a status change
+    oracle.status = ORACLE_STATUS_WORKING
+    oracle.statusSince = ZERO_BI
+    oracle.statusChangeCount = ZERO_BI
+    oracle.statusAccruedUntil = ZERO_BI
+    oracle.timeUsingTellorChainlinkUntrusted = ZERO_BI
+    oracle.timeBothOraclesUntrusted = ZERO_BI
+    oracle.timeUsingTellorChainlinkFrozen = ZERO_BI
+    oracle.timeUsingChainlinkTellorUntrusted = ZERO_BI
+  }
+  return oracle
+}
+
+/**
+ * Name of a PriceFeed status from its uint8 value
+ */
+export function oracleStatusName(status: i32): string {
+  if (status < 0 || status >= ORACLE_STATUSES.length) return ORACLE_STATUS_WORKING
+  return ORACLE_STATUSES[status]
+}
+
+/**
+ * Credit the time in the current status since the last accrual to its total
+ */
+export function accrueOracleStatusTime(oracle: OracleState, timestamp: BigInt): void {
+  let since = oracle.statusAccruedUntil
+  if (since.gt(ZERO_BI) && timestamp.gt(since)) {
+    let elapsed = timestamp.minus(since)
+    let status = oracle.status
+    if (status == "USING_TELLOR_CHAINLINK_UNTRUSTED") {
+      oracle.timeUsingTellorChainlinkUntrusted = oracle.timeUsingTellorChainlinkUntrusted.plus(elapsed)
+    } else if (status == "BOTH_ORACLES_UNTRUSTED") {
+      oracle.timeBothOraclesUntrusted = oracle.timeBothOraclesUntrusted.plus(elapsed)
+    } else if (status == "USING_TELLOR_CHAINLINK_FROZEN") {
+      oracle.timeUsingTellorChainlinkFrozen = oracle.timeUsingTellorChainlinkFrozen.plus(elapsed)
+    } else if (status == "USING_CHAINLINK_TELLOR_UNTRUSTED") {
+      oracle.timeUsingChainlinkTellorUntrusted = oracle.timeUsingChainlinkTellorUntrusted.plus(elapsed)
+    }
+  }
+  if (timestamp.gt(since)) {
+    oracle.statusAccruedUntil = timestamp
+  }
+}
+
+/**
+ * Switch the oracle to a new status, closing the previous status period
+ * Returns the seconds spent in the previous status
+ */
+export function recordOracleStatus(oracle: OracleState, status: string, timestamp: BigInt): BigInt {
+  let duration = ZERO_BI
+  if (oracle.statusSince.gt(ZERO_BI) && timestamp.gt(oracle.statusSince)) {
+    duration = timestamp.minus(oracle.statusSince)
+  }
+
+  accrueOracleStatusTime(oracle, timestamp)
+  oracle.status = status
+  oracle.statusSince = timestamp
+  oracle.statusChangeCount = oracle.statusChangeCount.plus(ONE_BI)
+  return duration
+}
+
+/**
+ * Current PriceFeed status, CHAINLINK_WORKING if the PriceFeed has not reported yet
+ */
+export function getLatestOracleStatus(): string {
+  let oracle = OracleState.load(ORACLE_STATE_ID)
+  if (oracle == null) return ORACLE_STATUS_WORKING
+  return oracle.status
+}
+
+/**
+ * Record a new LastGoodPriceUpdated value (18 decimals)
+ */
+export function recordLastGoodPrice(
+  oracle: OracleState,
+  price: BigInt,
+  blockNumber: BigInt,
+  timestamp: BigInt
+): void {
+  oracle.lastGoodPrice = price
+  oracle.lastGoodPriceUSD = price.toBigDecimal().div(DECIMAL_PRECISION_BD)
+  oracle.lastUpdateBlock = blockNumber
+  oracle.lastUpdateTimestamp = timestamp
+  oracle.updateCount = oracle.updateCount.plus(ONE_BI)
+}
+
+/**
+ * Latest FIL/USD price (18 decimals), or zero if the PriceFeed has not reported yet
+ */
+export function getLatestFilPrice(): BigInt {
+  let oracle = OracleState.load(ORACLE_STATE_ID)
+  if (oracle == null) return ZERO_BI
+  return oracle.lastGoodPrice
+}
+
+/**
+ * Latest FIL/USD price as a decimal USD value
+ */
+export function getLatestFilPriceUSD(): BigDecimal {
+  let oracle = OracleState.load(ORACLE_STATE_ID)
+  if (oracle == null) return ZERO_BD
+  return oracle.lastGoodPriceUSD
+}
+
+/**
+ * USD value of a FIL amount at an 18-decimal oracle price
+ */
+export function filToUSD(amount: BigInt, price: BigInt): BigDecimal {
+  return amount.toBigDecimal()
+    .times(price.toBigDecimal())
+    .div(DECIMAL_PRECISION_BD)
+    .div(DECIMAL_PRECISION_BD)
+}
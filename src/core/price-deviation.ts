@@ -0,0 +1,189 @@
+/**
+ * USDFC v0 - Price Deviation Monitor
+ * Oracle FIL/USD against the SushiSwap USDFC/WFIL pool price, shared by the PriceFeed and DEX handlers
+ */
+
+import { BigInt, BigDecimal, Bytes, log } from "@graphprotocol/graph-ts"
+import {
+  PriceDeviationMonitor,
+  PriceDeviation,
+  PriceDeviationAlert
+} from "../../generated/schema"
+import {
+  ZERO_BI,
+  ONE_BI,
+  ZERO_BD,
+  HUNDRED_BD,
+  PRICE_DEVIATION_ALERT_THRESHOLD,
+  PRICE_DEVIATION_MONITOR_ID
+} from "../utils/constants"
+import { absBD } from "../utils/helpers"
+
+/**
+ * Load the deviation monitor, creating an empty one before either price is seen
+ */
+export function getOrCreatePriceDeviationMonitor(): PriceDeviationMonitor {
+  let monitor = PriceDeviationMonitor.load(PRICE_DEVIATION_MONITOR_ID)
+  if (monitor == null) {
+    monitor = new PriceDeviationMonitor(PRICE_DEVIATION_MONITOR_ID)
+    monitor.oraclePrice = ZERO_BD
+    monitor.oracleUpdateTimestamp = ZERO_BI
+    monitor.dexPrice = ZERO_BD
+    monitor.dexUpdateTimestamp = ZERO_BI
+    monitor.deviationPercent = ZERO_BD
+    monitor.maxAbsDeviationPercent = ZERO_BD
+    monitor.observationCount = ZERO_BI
+    monitor.alertCount = ZERO_BI
+    monitor.lastUpdateBlock = ZERO_BI
+    monitor.lastUpdateTimestamp = ZERO_BI
+  }
+  return monitor
+}
+
+/**
+ * Record a new oracle FIL/USD price and compare it with the latest pool price
+ */
+export function recordOracleFilPrice(
+  price: BigDecimal,
+  txHash: Bytes,
+  logIndex: BigInt,
+  blockNumber: BigInt,
+  timestamp: BigInt
+): void {
+  let monitor = getOrCreatePriceDeviationMonitor()
+  monitor.oraclePrice = price
+  monitor.oracleUpdateTimestamp = timestamp
+  observeDeviation(monitor, "ORACLE", txHash, logIndex, blockNumber, timestamp)
+  monitor.save()
+}
+
+/**
+ * Record a new pool-implied FIL price (in USD) and compare it with the oracle price
+ */
+export function recordDexFilPrice(
+  pool: Bytes,
+  price: BigDecimal,
+  txHash: Bytes,
+  logIndex: BigInt,
+  blockNumber: BigInt,
+  timestamp: BigInt
+): void {
+  let monitor = getOrCreatePriceDeviationMonitor()
+  monitor.dexPrice = price
+  monitor.dexPool = pool
+  monitor.dexUpdateTimestamp = timestamp
+  observeDeviation(monitor, "DEX", txHash, logIndex, blockNumber, timestamp)
+  monitor.save()
+}
+
+/**
+ * Record the gap between the two prices, opening or closing an alert as it crosses the threshold
+ */
+function observeDeviation(
+  monitor: PriceDeviationMonitor,
+  source: string,
+  txHash: Bytes,
+  logIndex: BigInt,
+  blockNumber: BigInt,
+  timestamp: BigInt
+): void {
+  monitor.lastUpdateBlock = blockNumber
+  monitor.lastUpdateTimestamp = timestamp
+
+  // Nothing to compare until both sources have reported
+  if (monitor.oraclePrice.le(ZERO_BD) || monitor.dexPrice.le(ZERO_BD)) return
+
+  let deviation = monitor.dexPrice.minus(monitor.oraclePrice)
+  let deviationPercent = deviation.div(monitor.oraclePrice).times(HUNDRED_BD)
+  let absDeviationPercent = absBD(deviationPercent)
+  let breach = absDeviationPercent.ge(PRICE_DEVIATION_ALERT_THRESHOLD)
+
+  monitor.deviationPercent = deviationPercent
+  monitor.observationCount = monitor.observationCount.plus(ONE_BI)
+  if (absDeviationPercent.gt(monitor.maxAbsDeviationPercent)) {
+    monitor.maxAbsDeviationPercent = absDeviationPercent
+  }
+
+  let observationId = txHash.concatI32(logIndex.toI32())
+  let alert = loadActiveAlert(monitor)
+  if (breach) {
+    if (alert == null) {
+      alert = openAlert(monitor, observationId, source, deviationPercent, blockNumber, timestamp, txHash)
+    }
+    alert.observationCount = alert.observationCount.plus(ONE_BI)
+    if (absDeviationPercent.gt(alert.peakAbsDeviationPercent)) {
+      alert.peakAbsDeviationPercent = absDeviationPercent
+    }
+    alert.duration = timestamp.minus(alert.openedAt)
+    alert.save()
+  } else if (alert != null) {
+    alert.closedAt = timestamp
+    alert.duration = timestamp.minus(alert.openedAt)
+    alert.save()
+    monitor.activeAlert = null
+    alert = null
+  }
+
+  let observation = new PriceDeviation(observationId)
+  observation.timestamp = timestamp
+  observation.source = source
+  observation.oraclePrice = monitor.oraclePrice
+  observation.dexPrice = monitor.dexPrice
+  observation.deviation = deviation
+  observation.deviationPercent = deviationPercent
+  observation.oracleAge = timestamp.minus(monitor.oracleUpdateTimestamp)
+  observation.dexPriceAge = timestamp.minus(monitor.dexUpdateTimestamp)
+  observation.breach = breach
+  if (alert != null) {
+    observation.alert = alert.id
+  }
+  observation.blockNumber = blockNumber
+  observation.transactionHash = txHash
+  observation.save()
+}
+
+/**
+ * Load the monitor's open alert, if any
+ */
+function loadActiveAlert(monitor: PriceDeviationMonitor): PriceDeviationAlert | null {
+  let alertId = monitor.activeAlert
+  if (alertId === null) return null
+  return PriceDeviationAlert.load(alertId)
+}
+
+/**
+ * Open an alert for a gap that just crossed the threshold
+ */
+function openAlert(
+  monitor: PriceDeviationMonitor,
+  id: Bytes,
+  source: string,
+  deviationPercent: BigDecimal,
+  blockNumber: BigInt,
+  timestamp: BigInt,
+  txHash: Bytes
+): PriceDeviationAlert {
+  let alert = new PriceDeviationAlert(id)
+  alert.monitor = monitor.id
+  alert.openedAt = timestamp
+  alert.duration = ZERO_BI
+  alert.triggerSource = source
+  alert.threshold = PRICE_DEVIATION_ALERT_THRESHOLD
+  alert.openingDeviationPercent = deviationPercent
+  alert.peakAbsDeviationPercent = ZERO_BD
+  alert.oraclePriceAtOpen = monitor.oraclePrice
+  alert.dexPriceAtOpen = monitor.dexPrice
+  alert.observationCount = ZERO_BI
+  alert.blockNumber = blockNumber
+  alert.transactionHash = txHash
+
+  monitor.activeAlert = alert.id
+  monitor.alertCount = monitor.alertCount.plus(ONE_BI)
+
+  log.warning("Oracle/DEX FIL price deviation of {}% (oracle {}, pool {})", [
+    deviationPercent.toString(),
+    monitor.oraclePrice.toString(),
+    monitor.dexPrice.toString()
+  ])
+  return alert
+}
@@ -0,0 +1,159 @@
+/**
+ * USDFC v0 - Protocol Stats
+ * Global ProtocolStats entity shared by all protocol handlers
+ */
+
+import { BigInt, BigDecimal, log } from "@graphprotocol/graph-ts"
+import { ProtocolStats, RecoveryModeEpisode } from "../../generated/schema"
+import {
+  ZERO_BI,
+  ONE_BI,
+  ZERO_BD,
+  GLOBAL_STATS_ID,
+  CRITICAL_COLLATERAL_RATIO
+} from "../utils/constants"
+import { calculateCollateralRatio } from "../utils/helpers"
+import { calculateBorrowingFeeRate, calculateRedemptionFeeRate } from "./fee-stats"
+
+/**
+ * Load global protocol stats, creating them on first use
+ */
+export function getOrCreateProtocolStats(): ProtocolStats {
+  let stats = ProtocolStats.load(GLOBAL_STATS_ID)
+  if (stats == null) {
+    stats = new ProtocolStats(GLOBAL_STATS_ID)
+    initializeProtocolStats(stats)
+  }
+  return stats
+}
+
+/**
+ * Initialize protocol stats with default values
+ */
+function initializeProtocolStats(stats: ProtocolStats): void {
+  // V5 core metrics
+  stats.totalSupply = ZERO_BI
+  stats.totalDebt = ZERO_BI
+  stats.totalCollateral = ZERO_BI
+  stats.activeTroveCount = ZERO_BI
+  stats.totalTroveCount = ZERO_BI
+  stats.holderCount = ZERO_BI
+
+  // Enhanced protocol metrics
+  stats.averageCollateralRatio = ZERO_BD
+  stats.medianCollateralRatio = ZERO_BD
+  stats.protocolHealth = BigDecimal.fromString("100")
+  stats.liquidationRisk = ZERO_BD
+
+  // Ecosystem metrics
+  stats.ecosystemUserCount = ZERO_BI
+  stats.dexTradingVolume = ZERO_BI
+  stats.bridgeVolume = ZERO_BI
+  stats.p2pVolume = ZERO_BI
+  stats.defiIntegrationVolume = ZERO_BI
+  stats.totalEcosystemVolume = ZERO_BI
+
+  // Activity metrics
+  stats.dailyActiveUsers = ZERO_BI
+  stats.weeklyActiveUsers = ZERO_BI
+  stats.monthlyActiveUsers = ZERO_BI
+  stats.userRetentionRate = ZERO_BD
+  stats.userAcquisitionRate = ZERO_BD
+
+  // Composability metrics
+  stats.protocolIntegrations = ZERO_BI
+  stats.crossProtocolOperations = ZERO_BI
+  stats.composabilityScore = ZERO_BD
+  stats.innovationIndex = ZERO_BD
+
+  // Predictive metrics
+  stats.predictedGrowth = ZERO_BD
+  stats.ecosystemHealthScore = BigDecimal.fromString("100")
+
+  // Liquidation & redemption totals
+  stats.lifetimeLiquidationCount = ZERO_BI
+  stats.lifetimeRedemptionCount = ZERO_BI
+  stats.totalRedemptionFees = ZERO_BI
+  stats.totalBorrowingFees = ZERO_BI
+
+  // Fee rates
+  stats.baseRate = ZERO_BI
+  stats.borrowingFeeRate = calculateBorrowingFeeRate(ZERO_BI)
+  stats.redemptionFeeRate = calculateRedemptionFeeRate(ZERO_BI)
+  stats.lastFeeOperationTime = ZERO_BI
+
+  // System collateralization
+  stats.systemCollateral = ZERO_BI
+  stats.systemDebt = ZERO_BI
+  stats.totalCollateralRatio = ZERO_BD
+  stats.recoveryMode = false
+  stats.recoveryModeEpisodeCount = ZERO_BI
+
+  // Protocol token staking
+  stats.totalProtocolTokenStaked = ZERO_BI
+  stats.stakerCount = ZERO_BI
+  stats.totalStakingFILGains = ZERO_BI
+  stats.totalStakingDebtTokenGains = ZERO_BI
+
+  stats.lastUpdateBlock = ZERO_BI
+  stats.lastUpdateTimestamp = ZERO_BI
+}
+
+/**
+ * Recompute the total collateral ratio and open or close Recovery Mode episodes
+ * Call before saving the stats
+ */
+export function updateTotalCollateralRatio(
+  stats: ProtocolStats,
+  price: BigInt,
+  blockNumber: BigInt,
+  timestamp: BigInt
+): void {
+  if (price.equals(ZERO_BI)) return
+
+  stats.totalCollateralRatio = calculateCollateralRatio(stats.systemCollateral, stats.systemDebt, price)
+  let inRecoveryMode = stats.systemDebt.gt(ZERO_BI) &&
+    stats.totalCollateralRatio.lt(CRITICAL_COLLATERAL_RATIO)
+
+  if (inRecoveryMode && !stats.recoveryMode) {
+    // Entering Recovery Mode
+    stats.recoveryModeEpisodeCount = stats.recoveryModeEpisodeCount.plus(ONE_BI)
+    let episode = new RecoveryModeEpisode(stats.recoveryModeEpisodeCount.toString())
+    episode.stats = stats.id
+    episode.isActive = true
+    episode.startBlock = blockNumber
+    episode.startTimestamp = timestamp
+    episode.startCollateralRatio = stats.totalCollateralRatio
+    episode.startPrice = price
+    episode.lowestCollateralRatio = stats.totalCollateralRatio
+    episode.liquidationCount = ZERO_BI
+    episode.save()
+    stats.latestRecoveryModeEpisode = episode.id
+
+    log.warning("Recovery Mode entered: TCR {}% at price {}", [
+      stats.totalCollateralRatio.toString(),
+      price.toString()
+    ])
+  } else if (stats.recoveryMode) {
+    let episodeId = stats.latestRecoveryModeEpisode
+    let episode = episodeId != null ? RecoveryModeEpisode.load(episodeId!) : null
+    if (episode != null) {
+      if (stats.totalCollateralRatio.lt(episode.lowestCollateralRatio)) {
+        episode.lowestCollateralRatio = stats.totalCollateralRatio
+      }
+      if (!inRecoveryMode) {
+        // Leaving Recovery Mode
+        episode.isActive = false
+        episode.endBlock = blockNumber
+        episode.endTimestamp = timestamp
+        episode.endCollateralRatio = stats.totalCollateralRatio
+        episode.endPrice = price
+        episode.duration = timestamp.minus(episode.startTimestamp)
+        log.info("Recovery Mode exited: TCR {}%", [stats.totalCollateralRatio.toString()])
+      }
+      episode.save()
+    }
+  }
+
+  stats.recoveryMode = inRecoveryMode
+}
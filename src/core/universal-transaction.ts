@@ -163,6 +163,7 @@ export function ensureAccount(address: Bytes): Account {
     
     // Initialize user intelligence
     account.userType = "RETAIL_USER" // Default classification
+    account.activityPatterns = []
     account.riskScore = BigDecimal.fromString("50") // Neutral risk
     account.composabilityScore = BigDecimal.fromString("0")
     account.influenceScore = BigDecimal.fromString("0")
@@ -332,18 +333,6 @@ export function updateEcosystemStats(category: string, ecosystem: string, value:
  * Initialize ecosystem stats with default values
  */
 function initializeEcosystemStats(stats: EcosystemStats): void {
-  // V5 preserved metrics
-  stats.totalSupply = BigInt.fromI32(0)
-  stats.totalDebt = BigInt.fromI32(0)
-  stats.activeTroveCount = BigInt.fromI32(0)
-  stats.holderCount = BigInt.fromI32(0)
-  
-  // Enhanced protocol metrics
-  stats.averageCollateralRatio = BigDecimal.fromString("0")
-  stats.medianCollateralRatio = BigDecimal.fromString("0")
-  stats.protocolHealth = BigDecimal.fromString("100")
-  stats.liquidationRisk = BigDecimal.fromString("0")
-  
   // Ecosystem metrics
   stats.ecosystemUserCount = BigInt.fromI32(0)
   stats.dexTradingVolume = BigInt.fromI32(0)
@@ -0,0 +1,337 @@
+/**
+ * Concentrated Liquidity Positions
+ * LP positions from Mint, Burn and Collect for liquidity held directly in a pool, and from the
+ * position manager's IncreaseLiquidity, DecreaseLiquidity, Collect and Transfer for NFT positions,
+ * with time in range for liquidity mining
+ *
+ * Time in range is read from the pool's per-tick seconds outside on the position's own events;
+ * swaps only touch the open positions with a boundary at a tick they cross, to flip their in-range flag
+ */
+
+import { Address, BigInt, Bytes } from "@graphprotocol/graph-ts";
+import { LiquidityPosition, Pool, PoolTick } from "../../generated/schema";
+import { NONFUNGIBLE_POSITION_MANAGER_ADDRESS } from "./price-utils";
+import { secondsInside, poolTickId, getOrCreatePoolTick } from "./pool-liquidity";
+
+/**
+ * Entity ID of a position held directly in a pool: pool + owner + tickLower + tickUpper
+ */
+export function liquidityPositionId(pool: Bytes, owner: Bytes, tickLower: i32, tickUpper: i32): Bytes {
+  return pool.concat(owner).concatI32(tickLower).concatI32(tickUpper);
+}
+
+/**
+ * Entity ID of a position manager NFT: position manager + token ID
+ */
+export function managedPositionId(tokenId: BigInt): Bytes {
+  return NONFUNGIBLE_POSITION_MANAGER_ADDRESS.concat(Bytes.fromByteArray(Bytes.fromBigInt(tokenId)));
+}
+
+/**
+ * Whether a pool-level owner is the position manager, whose positions are tracked by token ID from its own events
+ */
+export function isManagedOwner(owner: Address): boolean {
+  return owner.equals(NONFUNGIBLE_POSITION_MANAGER_ADDRESS);
+}
+
+/**
+ * Get or create a position held directly in a pool
+ */
+export function getOrCreateLiquidityPosition(
+  pool: Pool,
+  owner: Bytes,
+  tickLower: i32,
+  tickUpper: i32,
+  timestamp: BigInt,
+  blockNumber: BigInt
+): LiquidityPosition {
+  const id = liquidityPositionId(pool.id, owner, tickLower, tickUpper);
+  let position = LiquidityPosition.load(id);
+
+  if (position == null) {
+    position = createLiquidityPosition(id, pool, owner, tickLower, tickUpper, timestamp, blockNumber);
+  }
+
+  position.lastUpdateTimestamp = timestamp;
+  position.lastUpdateBlock = blockNumber;
+  return position;
+}
+
+/**
+ * Create an empty position over a tick range
+ */
+export function createLiquidityPosition(
+  id: Bytes,
+  pool: Pool,
+  owner: Bytes,
+  tickLower: i32,
+  tickUpper: i32,
+  timestamp: BigInt,
+  blockNumber: BigInt
+): LiquidityPosition {
+  let position = new LiquidityPosition(id);
+  position.pool = pool.id;
+  position.owner = owner;
+  position.tickLower = tickLower;
+  position.tickUpper = tickUpper;
+  position.liquidity = BigInt.fromI32(0);
+  position.inRange = false;
+  position.depositedToken0 = BigInt.fromI32(0);
+  position.depositedToken1 = BigInt.fromI32(0);
+  position.withdrawnToken0 = BigInt.fromI32(0);
+  position.withdrawnToken1 = BigInt.fromI32(0);
+  position.collectedToken0 = BigInt.fromI32(0);
+  position.collectedToken1 = BigInt.fromI32(0);
+  position.feesCollectedToken0 = BigInt.fromI32(0);
+  position.feesCollectedToken1 = BigInt.fromI32(0);
+  position.inRangeSeconds = BigInt.fromI32(0);
+  position.inRangeLiquiditySeconds = BigInt.fromI32(0);
+  position.secondsInsideLast = BigInt.fromI32(0);
+  position.lastAccrualTimestamp = timestamp;
+  position.mintCount = 0;
+  position.burnCount = 0;
+  position.collectCount = 0;
+  position.createdAt = timestamp;
+  position.createdAtBlock = blockNumber;
+  position.lastUpdateTimestamp = timestamp;
+  position.lastUpdateBlock = blockNumber;
+  return position;
+}
+
+/**
+ * Whether the pool's current tick is inside a position's range
+ */
+function rangeContainsTick(pool: Pool, position: LiquidityPosition): boolean {
+  return position.tickLower <= pool.tick && pool.tick < position.tickUpper;
+}
+
+/**
+ * Add an opened position to the open position lists of its range's ticks
+ */
+function linkPosition(pool: Pool, position: LiquidityPosition): void {
+  let lower = PoolTick.load(poolTickId(pool.id, position.tickLower));
+  if (lower != null) {
+    const head = lower.firstLowerPosition;
+    if (head !== null) {
+      let next = LiquidityPosition.load(head);
+      if (next != null) {
+        next.previousAtLower = position.id;
+        next.save();
+      }
+    }
+    position.nextAtLower = head;
+    lower.firstLowerPosition = position.id;
+    lower.save();
+  }
+
+  let upper = PoolTick.load(poolTickId(pool.id, position.tickUpper));
+  if (upper != null) {
+    const head = upper.firstUpperPosition;
+    if (head !== null) {
+      let next = LiquidityPosition.load(head);
+      if (next != null) {
+        next.previousAtUpper = position.id;
+        next.save();
+      }
+    }
+    position.nextAtUpper = head;
+    upper.firstUpperPosition = position.id;
+    upper.save();
+  }
+}
+
+/**
+ * Remove an emptied position from the open position lists of its range's ticks
+ */
+function unlinkPosition(pool: Pool, position: LiquidityPosition): void {
+  const previousAtLower = position.previousAtLower;
+  const nextAtLower = position.nextAtLower;
+  if (previousAtLower !== null) {
+    let previous = LiquidityPosition.load(previousAtLower);
+    if (previous != null) {
+      previous.nextAtLower = nextAtLower;
+      previous.save();
+    }
+  } else {
+    let lower = PoolTick.load(poolTickId(pool.id, position.tickLower));
+    if (lower != null) {
+      lower.firstLowerPosition = nextAtLower;
+      lower.save();
+    }
+  }
+  if (nextAtLower !== null) {
+    let next = LiquidityPosition.load(nextAtLower);
+    if (next != null) {
+      next.previousAtLower = previousAtLower;
+      next.save();
+    }
+  }
+
+  const previousAtUpper = position.previousAtUpper;
+  const nextAtUpper = position.nextAtUpper;
+  if (previousAtUpper !== null) {
+    let previous = LiquidityPosition.load(previousAtUpper);
+    if (previous != null) {
+      previous.nextAtUpper = nextAtUpper;
+      previous.save();
+    }
+  } else {
+    let upper = PoolTick.load(poolTickId(pool.id, position.tickUpper));
+    if (upper != null) {
+      upper.firstUpperPosition = nextAtUpper;
+      upper.save();
+    }
+  }
+  if (nextAtUpper !== null) {
+    let next = LiquidityPosition.load(nextAtUpper);
+    if (next != null) {
+      next.previousAtUpper = previousAtUpper;
+      next.save();
+    }
+  }
+
+  position.previousAtLower = null;
+  position.nextAtLower = null;
+  position.previousAtUpper = null;
+  position.nextAtUpper = null;
+}
+
+/**
+ * Refresh the in-range flag of the open positions bounded by ticks a swap crossed
+ * Call after the pool has moved to its new tick
+ */
+export function refreshCrossedPositions(pool: Pool, crossedTicks: Bytes[]): void {
+  for (let i = 0; i < crossedTicks.length; i++) {
+    let tick = PoolTick.load(crossedTicks[i]);
+    if (tick == null) continue;
+
+    let id = tick.firstLowerPosition;
+    while (id !== null) {
+      let position = LiquidityPosition.load(id);
+      if (position == null) break;
+      position.inRange = rangeContainsTick(pool, position);
+      position.save();
+      id = position.nextAtLower;
+    }
+
+    id = tick.firstUpperPosition;
+    while (id !== null) {
+      let position = LiquidityPosition.load(id);
+      if (position == null) break;
+      position.inRange = rangeContainsTick(pool, position);
+      position.save();
+      id = position.nextAtUpper;
+    }
+  }
+}
+
+/**
+ * Accrue time in range up to a timestamp at the position's current liquidity
+ * Call before the liquidity changes, with the range's ticks referenced
+ */
+function accruePosition(pool: Pool, position: LiquidityPosition, timestamp: BigInt): void {
+  const inside = secondsInside(pool, position.tickLower, position.tickUpper, timestamp);
+  if (position.liquidity.gt(BigInt.fromI32(0)) && inside.gt(position.secondsInsideLast)) {
+    const elapsed = inside.minus(position.secondsInsideLast);
+    position.inRangeSeconds = position.inRangeSeconds.plus(elapsed);
+    position.inRangeLiquiditySeconds = position.inRangeLiquiditySeconds.plus(position.liquidity.times(elapsed));
+  }
+  position.secondsInsideLast = inside;
+  position.lastAccrualTimestamp = timestamp;
+}
+
+/**
+ * Apply a liquidity change, added (positive) or removed (negative), to a position, its pool's open count
+ * and the open position lists of its range's ticks
+ */
+function changeLiquidity(
+  pool: Pool,
+  position: LiquidityPosition,
+  liquidityDelta: BigInt,
+  timestamp: BigInt
+): void {
+  accruePosition(pool, position, timestamp);
+  const wasOpen = position.liquidity.gt(BigInt.fromI32(0));
+  position.liquidity = position.liquidity.plus(liquidityDelta);
+  const isOpen = position.liquidity.gt(BigInt.fromI32(0));
+
+  if (!wasOpen && isOpen) {
+    pool.openPositionCount = pool.openPositionCount + 1;
+    linkPosition(pool, position);
+  } else if (wasOpen && !isOpen) {
+    pool.openPositionCount = pool.openPositionCount - 1;
+    unlinkPosition(pool, position);
+  }
+  position.inRange = isOpen && rangeContainsTick(pool, position);
+}
+
+/**
+ * Record liquidity and token amounts added by Mint or IncreaseLiquidity
+ */
+export function recordPositionMint(
+  pool: Pool,
+  position: LiquidityPosition,
+  liquidity: BigInt,
+  amount0: BigInt,
+  amount1: BigInt,
+  timestamp: BigInt
+): void {
+  changeLiquidity(pool, position, liquidity, timestamp);
+  position.depositedToken0 = position.depositedToken0.plus(amount0);
+  position.depositedToken1 = position.depositedToken1.plus(amount1);
+  position.mintCount = position.mintCount + 1;
+}
+
+/**
+ * Record liquidity removed by Burn or DecreaseLiquidity; its token amounts become owed until collected
+ */
+export function recordPositionBurn(
+  pool: Pool,
+  position: LiquidityPosition,
+  liquidity: BigInt,
+  amount0: BigInt,
+  amount1: BigInt,
+  timestamp: BigInt
+): void {
+  changeLiquidity(pool, position, liquidity.neg(), timestamp);
+  position.withdrawnToken0 = position.withdrawnToken0.plus(amount0);
+  position.withdrawnToken1 = position.withdrawnToken1.plus(amount1);
+  position.burnCount = position.burnCount + 1;
+}
+
+/**
+ * Open a position first seen after its liquidity was added, at the liquidity the position manager reports
+ */
+export function recordExistingLiquidity(
+  pool: Pool,
+  position: LiquidityPosition,
+  liquidity: BigInt,
+  timestamp: BigInt,
+  blockNumber: BigInt
+): void {
+  getOrCreatePoolTick(pool, position.tickLower, timestamp, blockNumber).save();
+  getOrCreatePoolTick(pool, position.tickUpper, timestamp, blockNumber).save();
+  changeLiquidity(pool, position, liquidity, timestamp);
+}
+
+/**
+ * Record tokens paid out by Collect; whatever exceeds the withdrawn principal is fees
+ */
+export function recordPositionCollect(
+  pool: Pool,
+  position: LiquidityPosition,
+  amount0: BigInt,
+  amount1: BigInt,
+  timestamp: BigInt
+): void {
+  accruePosition(pool, position, timestamp);
+  position.collectedToken0 = position.collectedToken0.plus(amount0);
+  position.collectedToken1 = position.collectedToken1.plus(amount1);
+  position.feesCollectedToken0 = position.collectedToken0.gt(position.withdrawnToken0)
+    ? position.collectedToken0.minus(position.withdrawnToken0)
+    : BigInt.fromI32(0);
+  position.feesCollectedToken1 = position.collectedToken1.gt(position.withdrawnToken1)
+    ? position.collectedToken1.minus(position.withdrawnToken1)
+    : BigInt.fromI32(0);
+  position.collectCount = position.collectCount + 1;
+}
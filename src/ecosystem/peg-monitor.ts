@@ -0,0 +1,258 @@
+/**
+ * USDFC Peg Monitor
+ * Prices USDFC from the SushiSwap USDFC/axlUSDC pool on every swap,
+ * records depeg episodes and hourly/daily peg statistics
+ */
+
+import { BigInt, BigDecimal, Bytes, log } from "@graphprotocol/graph-ts";
+import { UsdfcPegState, DepegEpisode, UsdfcPegStats } from "../../generated/schema";
+import {
+  usdfcPriceInAxlUSDC,
+  sortsBefore,
+  toTokenAmount,
+  USDFC_ADDRESS,
+  AXLUSDC_ADDRESS,
+  USDFC_PEG_STATE_ID,
+  DEPEG_THRESHOLD_PERCENT
+} from "./price-utils";
+
+// Peg statistics intervals (CandleInterval enum) and their lengths in seconds
+const PEG_STATS_INTERVALS: string[] = ["HOUR", "DAY"];
+const PEG_STATS_INTERVAL_SECONDS: i32[] = [3600, 86400];
+
+/**
+ * Get or create the USDFC peg state
+ */
+export function getOrCreateUsdfcPegState(): UsdfcPegState {
+  let pegState = UsdfcPegState.load(USDFC_PEG_STATE_ID);
+
+  if (pegState == null) {
+    pegState = new UsdfcPegState(USDFC_PEG_STATE_ID);
+    pegState.price = BigDecimal.fromString("1");
+    pegState.deviationPercent = BigDecimal.fromString("0");
+    pegState.isDepegged = false;
+    pegState.episodeCount = BigInt.fromI32(0);
+    pegState.maxAbsDeviationPercent = BigDecimal.fromString("0");
+    pegState.offPegSeconds = BigInt.fromI32(0);
+    pegState.swapCount = BigInt.fromI32(0);
+    pegState.lastUpdateBlock = BigInt.fromI32(0);
+    pegState.lastUpdateTimestamp = BigInt.fromI32(0);
+  }
+
+  return pegState;
+}
+
+/**
+ * Update the USDFC peg from a USDFC/axlUSDC swap
+ * The axlUSDC leg of the swap gives its USD volume
+ */
+export function recordUsdfcPegSwap(
+  sqrtPriceX96: BigInt,
+  amount0: BigInt,
+  amount1: BigInt,
+  txHash: Bytes,
+  logIndex: BigInt,
+  blockNumber: BigInt,
+  timestamp: BigInt
+): void {
+  let pegState = getOrCreateUsdfcPegState();
+  const wasDepegged = pegState.isDepegged;
+  const previousUpdate = pegState.lastUpdateTimestamp;
+
+  const price = usdfcPriceInAxlUSDC(sqrtPriceX96);
+  const deviationPercent = price.minus(BigDecimal.fromString("1")).times(BigDecimal.fromString("100"));
+  const absDeviationPercent = deviationPercent.lt(BigDecimal.fromString("0"))
+    ? deviationPercent.neg()
+    : deviationPercent;
+  const isDepegged = absDeviationPercent.ge(DEPEG_THRESHOLD_PERCENT);
+
+  const axlUSDCAmount = sortsBefore(USDFC_ADDRESS, AXLUSDC_ADDRESS) ? amount1 : amount0;
+  const volumeUSD = toTokenAmount(AXLUSDC_ADDRESS, axlUSDCAmount.abs());
+
+  // Extend, close or open a depeg episode
+  let countedInEpisode = false;
+  let episodeStarted = false;
+  let episodeId = pegState.activeEpisode;
+  if (episodeId !== null) {
+    let episode = DepegEpisode.load(episodeId);
+    if (episode != null) {
+      // A swing straight across the peg closes the episode and opens one in the other direction
+      const flipped = isDepegged && depegDirection(price) != episode.direction;
+      if (!flipped) {
+        addSwapToEpisode(episode, price, absDeviationPercent, volumeUSD);
+        countedInEpisode = true;
+      }
+      episode.duration = timestamp.minus(episode.startTimestamp);
+
+      if (!isDepegged || flipped) {
+        episode.endTimestamp = timestamp;
+        episode.endPrice = price;
+        pegState.offPegSeconds = pegState.offPegSeconds.plus(episode.duration);
+        pegState.activeEpisode = null;
+        log.info("USDFC back within peg after {} seconds (price {})", [
+          episode.duration.toString(),
+          price.toString()
+        ]);
+      }
+      episode.save();
+    }
+  }
+
+  if (isDepegged && pegState.activeEpisode === null) {
+    let episode = openEpisode(pegState, txHash.concatI32(logIndex.toI32()), price, blockNumber, timestamp, txHash);
+    addSwapToEpisode(episode, price, absDeviationPercent, volumeUSD);
+    episode.save();
+    countedInEpisode = true;
+    episodeStarted = true;
+  }
+
+  // Hourly and daily statistics; a new period opens at the previous close
+  const hasPreviousSwap = previousUpdate.gt(BigInt.fromI32(0));
+  const openPrice = hasPreviousSwap ? pegState.price : price;
+  for (let i = 0; i < PEG_STATS_INTERVALS.length; i++) {
+    let stats = getOrCreateUsdfcPegStats(i, openPrice, timestamp);
+
+    // Time off-peg since the previous swap, within this period
+    if (wasDepegged && hasPreviousSwap) {
+      let offPeg = timestamp.minus(previousUpdate);
+      const sincePeriodStart = timestamp.minus(stats.periodStart);
+      if (offPeg.gt(sincePeriodStart)) {
+        creditEarlierOffPegSeconds(stats, i, previousUpdate);
+        offPeg = sincePeriodStart;
+      }
+      stats.offPegSeconds = stats.offPegSeconds.plus(offPeg);
+    }
+
+    if (price.gt(stats.highPrice)) stats.highPrice = price;
+    if (price.lt(stats.lowPrice)) stats.lowPrice = price;
+    stats.closePrice = price;
+    if (absDeviationPercent.gt(stats.maxAbsDeviationPercent)) {
+      stats.maxAbsDeviationPercent = absDeviationPercent;
+    }
+    stats.swapCount = stats.swapCount.plus(BigInt.fromI32(1));
+    stats.volumeUSD = stats.volumeUSD.plus(volumeUSD);
+    if (countedInEpisode) {
+      stats.offPegVolumeUSD = stats.offPegVolumeUSD.plus(volumeUSD);
+    }
+    if (episodeStarted) {
+      stats.episodesStarted = stats.episodesStarted.plus(BigInt.fromI32(1));
+    }
+    stats.lastUpdateTimestamp = timestamp;
+    stats.save();
+  }
+
+  pegState.price = price;
+  pegState.deviationPercent = deviationPercent;
+  pegState.isDepegged = isDepegged;
+  if (absDeviationPercent.gt(pegState.maxAbsDeviationPercent)) {
+    pegState.maxAbsDeviationPercent = absDeviationPercent;
+  }
+  pegState.swapCount = pegState.swapCount.plus(BigInt.fromI32(1));
+  pegState.lastUpdateBlock = blockNumber;
+  pegState.lastUpdateTimestamp = timestamp;
+  pegState.save();
+}
+
+/**
+ * Side of the peg a price is on
+ */
+function depegDirection(price: BigDecimal): string {
+  return price.lt(BigDecimal.fromString("1")) ? "BELOW" : "ABOVE";
+}
+
+/**
+ * Open a depeg episode at the swap that moved USDFC off its peg
+ */
+function openEpisode(
+  pegState: UsdfcPegState,
+  id: Bytes,
+  price: BigDecimal,
+  blockNumber: BigInt,
+  timestamp: BigInt,
+  txHash: Bytes
+): DepegEpisode {
+  let episode = new DepegEpisode(id);
+  episode.pegState = pegState.id;
+  episode.direction = depegDirection(price);
+  episode.startTimestamp = timestamp;
+  episode.duration = BigInt.fromI32(0);
+  episode.startPrice = price;
+  episode.minPrice = price;
+  episode.maxPrice = price;
+  episode.maxAbsDeviationPercent = BigDecimal.fromString("0");
+  episode.swapCount = BigInt.fromI32(0);
+  episode.volumeUSD = BigDecimal.fromString("0");
+  episode.startBlock = blockNumber;
+  episode.transactionHash = txHash;
+
+  pegState.activeEpisode = episode.id;
+  pegState.episodeCount = pegState.episodeCount.plus(BigInt.fromI32(1));
+
+  log.warning("USDFC depeg started at price {}", [price.toString()]);
+  return episode;
+}
+
+/**
+ * Fold a swap into a depeg episode
+ */
+function addSwapToEpisode(
+  episode: DepegEpisode,
+  price: BigDecimal,
+  absDeviationPercent: BigDecimal,
+  volumeUSD: BigDecimal
+): void {
+  if (price.lt(episode.minPrice)) episode.minPrice = price;
+  if (price.gt(episode.maxPrice)) episode.maxPrice = price;
+  if (absDeviationPercent.gt(episode.maxAbsDeviationPercent)) {
+    episode.maxAbsDeviationPercent = absDeviationPercent;
+  }
+  episode.swapCount = episode.swapCount.plus(BigInt.fromI32(1));
+  episode.volumeUSD = episode.volumeUSD.plus(volumeUSD);
+}
+
+/**
+ * Credit off-peg time since a swap in an earlier period: the rest of that period to its own
+ * statistics, and the periods without swaps in between to the current period's gap total
+ */
+function creditEarlierOffPegSeconds(current: UsdfcPegStats, interval: i32, from: BigInt): void {
+  const length = BigInt.fromI32(PEG_STATS_INTERVAL_SECONDS[interval]);
+  const fromPeriodStart = from.div(length).times(length);
+  const fromPeriodEnd = fromPeriodStart.plus(length);
+
+  let previous = UsdfcPegStats.load(PEG_STATS_INTERVALS[interval] + "-" + fromPeriodStart.toString());
+  if (previous != null) {
+    previous.offPegSeconds = previous.offPegSeconds.plus(fromPeriodEnd.minus(from));
+    previous.save();
+  }
+  current.gapOffPegSeconds = current.gapOffPegSeconds.plus(current.periodStart.minus(fromPeriodEnd));
+}
+
+/**
+ * Get or create the peg statistics of the period containing a timestamp
+ */
+function getOrCreateUsdfcPegStats(interval: i32, price: BigDecimal, timestamp: BigInt): UsdfcPegStats {
+  const length = BigInt.fromI32(PEG_STATS_INTERVAL_SECONDS[interval]);
+  const periodStart = timestamp.div(length).times(length);
+  const id = PEG_STATS_INTERVALS[interval] + "-" + periodStart.toString();
+  let stats = UsdfcPegStats.load(id);
+
+  if (stats == null) {
+    stats = new UsdfcPegStats(id);
+    stats.interval = PEG_STATS_INTERVALS[interval];
+    stats.periodStart = periodStart;
+    stats.openPrice = price;
+    stats.highPrice = price;
+    stats.lowPrice = price;
+    stats.closePrice = price;
+    stats.maxAbsDeviationPercent = BigDecimal.fromString("0");
+    stats.offPegSeconds = BigInt.fromI32(0);
+    stats.gapOffPegSeconds = BigInt.fromI32(0);
+    stats.swapCount = BigInt.fromI32(0);
+    stats.volumeUSD = BigDecimal.fromString("0");
+    stats.offPegVolumeUSD = BigDecimal.fromString("0");
+    stats.episodesStarted = BigInt.fromI32(0);
+    stats.lastUpdateTimestamp = timestamp;
+  }
+
+  return stats;
+}
@@ -0,0 +1,271 @@
+/**
+ * Pool Liquidity State
+ * Token balances, price, active liquidity and per-tick liquidity net of the known pools,
+ * maintained from Initialize, Swap, Mint, Burn, Collect, CollectProtocol and Flash
+ *
+ * Ticks are kept in a list sorted by index so a swap only visits the ticks it crosses,
+ * flipping their seconds outside the way the pool contract does
+ */
+
+import { BigInt, Bytes } from "@graphprotocol/graph-ts";
+import { Pool, PoolTick } from "../../generated/schema";
+
+/**
+ * Entity ID of a pool tick: pool + tick index
+ */
+export function poolTickId(pool: Bytes, tickIndex: i32): Bytes {
+  return pool.concatI32(tickIndex);
+}
+
+/**
+ * Load a pool tick from an optional reference
+ */
+function loadPoolTick(id: Bytes | null): PoolTick | null {
+  if (id === null) return null;
+  return PoolTick.load(id);
+}
+
+/**
+ * Link a new tick into the pool's sorted tick list, walking from the tick at or below the current tick
+ */
+function insertPoolTick(pool: Pool, tick: PoolTick): void {
+  let below = loadPoolTick(pool.tickCursor);
+  let above = below != null ? loadPoolTick(below.nextTick) : loadPoolTick(pool.lowestTick);
+  let belowCursor = false;
+  while (below != null && below.tickIndex > tick.tickIndex) {
+    above = below;
+    below = loadPoolTick(below.previousTick);
+    belowCursor = true;
+  }
+  while (above != null && above.tickIndex < tick.tickIndex) {
+    below = above;
+    above = loadPoolTick(above.nextTick);
+  }
+
+  if (below != null) {
+    tick.previousTick = below.id;
+    below.nextTick = tick.id;
+    below.save();
+  } else {
+    pool.lowestTick = tick.id;
+  }
+  if (above != null) {
+    tick.nextTick = above.id;
+    above.previousTick = tick.id;
+    above.save();
+  }
+
+  // The cursor is the highest tick at or below the current tick
+  if (tick.tickIndex <= pool.tick && !belowCursor) {
+    pool.tickCursor = tick.id;
+  }
+}
+
+/**
+ * Get or create a pool tick, linking new ticks into the pool's tick list
+ */
+export function getOrCreatePoolTick(
+  pool: Pool,
+  tickIndex: i32,
+  timestamp: BigInt,
+  blockNumber: BigInt
+): PoolTick {
+  const id = poolTickId(pool.id, tickIndex);
+  let tick = PoolTick.load(id);
+
+  if (tick == null) {
+    tick = new PoolTick(id);
+    tick.pool = pool.id;
+    tick.tickIndex = tickIndex;
+    tick.liquidityGross = BigInt.fromI32(0);
+    tick.liquidityNet = BigInt.fromI32(0);
+    tick.secondsOutside = BigInt.fromI32(0);
+    tick.createdAt = timestamp;
+    tick.createdAtBlock = blockNumber;
+    insertPoolTick(pool, tick);
+  }
+
+  tick.lastUpdateTimestamp = timestamp;
+  tick.lastUpdateBlock = blockNumber;
+  return tick;
+}
+
+/**
+ * Apply a liquidity change to one boundary of a position's range
+ * Crossing the lower tick upwards activates the liquidity, crossing the upper tick deactivates it
+ */
+function updateTick(
+  pool: Pool,
+  tickIndex: i32,
+  liquidityDelta: BigInt,
+  isUpper: boolean,
+  timestamp: BigInt,
+  blockNumber: BigInt
+): void {
+  let tick = getOrCreatePoolTick(pool, tickIndex, timestamp, blockNumber);
+  if (tick.liquidityGross.equals(BigInt.fromI32(0))) {
+    // By convention all time before a tick is referenced was spent below it
+    tick.secondsOutside = tickIndex <= pool.tick ? timestamp : BigInt.fromI32(0);
+  }
+  tick.liquidityGross = tick.liquidityGross.plus(liquidityDelta);
+  tick.liquidityNet = isUpper ? tick.liquidityNet.minus(liquidityDelta) : tick.liquidityNet.plus(liquidityDelta);
+  tick.save();
+}
+
+/**
+ * Apply a liquidity change from Mint (positive) or Burn (negative) to the pool's ticks and active liquidity
+ */
+function changePoolLiquidity(
+  pool: Pool,
+  tickLower: i32,
+  tickUpper: i32,
+  liquidityDelta: BigInt,
+  timestamp: BigInt,
+  blockNumber: BigInt
+): void {
+  updateTick(pool, tickLower, liquidityDelta, false, timestamp, blockNumber);
+  updateTick(pool, tickUpper, liquidityDelta, true, timestamp, blockNumber);
+
+  // Only a range around the current tick is active; the next swap reports the pool's own figure
+  if (pool.tickInitialized && tickLower <= pool.tick && pool.tick < tickUpper) {
+    pool.liquidity = pool.liquidity.plus(liquidityDelta);
+  }
+}
+
+/**
+ * Record liquidity and tokens added to the pool by Mint
+ */
+export function recordMintLiquidity(
+  pool: Pool,
+  tickLower: i32,
+  tickUpper: i32,
+  liquidity: BigInt,
+  amount0: BigInt,
+  amount1: BigInt,
+  timestamp: BigInt,
+  blockNumber: BigInt
+): void {
+  changePoolLiquidity(pool, tickLower, tickUpper, liquidity, timestamp, blockNumber);
+  pool.balanceToken0 = pool.balanceToken0.plus(amount0);
+  pool.balanceToken1 = pool.balanceToken1.plus(amount1);
+}
+
+/**
+ * Record liquidity removed by Burn; its tokens stay in the pool until collected
+ */
+export function recordBurnLiquidity(
+  pool: Pool,
+  tickLower: i32,
+  tickUpper: i32,
+  liquidity: BigInt,
+  timestamp: BigInt,
+  blockNumber: BigInt
+): void {
+  changePoolLiquidity(pool, tickLower, tickUpper, liquidity.neg(), timestamp, blockNumber);
+}
+
+/**
+ * Record tokens paid out of the pool by Collect
+ */
+export function recordCollectBalances(pool: Pool, amount0: BigInt, amount1: BigInt): void {
+  pool.balanceToken0 = pool.balanceToken0.minus(amount0);
+  pool.balanceToken1 = pool.balanceToken1.minus(amount1);
+}
+
+/**
+ * Record protocol fees paid out of the pool by CollectProtocol
+ */
+export function recordProtocolCollect(pool: Pool, amount0: BigInt, amount1: BigInt): void {
+  pool.balanceToken0 = pool.balanceToken0.minus(amount0);
+  pool.balanceToken1 = pool.balanceToken1.minus(amount1);
+}
+
+/**
+ * Record a flash loan: the loan is repaid within the call, only the fees paid stay in the pool
+ */
+export function recordFlashFees(pool: Pool, paid0: BigInt, paid1: BigInt): void {
+  pool.balanceToken0 = pool.balanceToken0.plus(paid0);
+  pool.balanceToken1 = pool.balanceToken1.plus(paid1);
+}
+
+/**
+ * Record a swap's signed token deltas (positive into the pool) and the pool's post-swap price and liquidity
+ */
+export function recordSwapState(
+  pool: Pool,
+  amount0: BigInt,
+  amount1: BigInt,
+  sqrtPriceX96: BigInt,
+  liquidity: BigInt
+): void {
+  pool.balanceToken0 = pool.balanceToken0.plus(amount0);
+  pool.balanceToken1 = pool.balanceToken1.plus(amount1);
+  pool.sqrtPriceX96 = sqrtPriceX96;
+  pool.liquidity = liquidity;
+}
+
+/**
+ * Record the pool's starting price and tick from Initialize
+ */
+export function recordPoolInitialize(pool: Pool, sqrtPriceX96: BigInt, tickIndex: i32, timestamp: BigInt): void {
+  // A pool is empty when initialized; state seeded at creation may already include
+  // mints later in the same block, which their own events add again
+  pool.liquidity = BigInt.fromI32(0);
+  pool.balanceToken0 = BigInt.fromI32(0);
+  pool.balanceToken1 = BigInt.fromI32(0);
+  pool.sqrtPriceX96 = sqrtPriceX96;
+  updatePoolTick(pool, tickIndex, timestamp);
+}
+
+/**
+ * Move the pool to a new tick, flipping the seconds outside of every referenced tick it crosses
+ * Returns the listed ticks crossed
+ */
+export function updatePoolTick(pool: Pool, tickIndex: i32, timestamp: BigInt): Bytes[] {
+  let crossed: Bytes[] = [];
+  let cursor = loadPoolTick(pool.tickCursor);
+  if (tickIndex > pool.tick) {
+    let next = cursor != null ? loadPoolTick(cursor.nextTick) : loadPoolTick(pool.lowestTick);
+    while (next != null && next.tickIndex <= tickIndex) {
+      crossTick(next, timestamp);
+      crossed.push(next.id);
+      cursor = next;
+      next = loadPoolTick(next.nextTick);
+    }
+  } else {
+    while (cursor != null && cursor.tickIndex > tickIndex) {
+      crossTick(cursor, timestamp);
+      crossed.push(cursor.id);
+      cursor = loadPoolTick(cursor.previousTick);
+    }
+  }
+
+  pool.tickCursor = cursor != null ? cursor.id : null;
+  pool.tick = tickIndex;
+  pool.tickInitialized = true;
+  return crossed;
+}
+
+/**
+ * Flip a tick's seconds outside as the price crosses it; unreferenced ticks are reset when reused
+ */
+function crossTick(tick: PoolTick, timestamp: BigInt): void {
+  if (tick.liquidityGross.equals(BigInt.fromI32(0))) return;
+  tick.secondsOutside = timestamp.minus(tick.secondsOutside);
+  tick.save();
+}
+
+/**
+ * Seconds the pool's price has spent inside a tick range, as a running counter
+ * Only the difference between two readings is meaningful, and only while both ticks stay referenced
+ */
+export function secondsInside(pool: Pool, tickLower: i32, tickUpper: i32, timestamp: BigInt): BigInt {
+  const lower = PoolTick.load(poolTickId(pool.id, tickLower));
+  const upper = PoolTick.load(poolTickId(pool.id, tickUpper));
+  const lowerOutside = lower != null ? lower.secondsOutside : BigInt.fromI32(0);
+  const upperOutside = upper != null ? upper.secondsOutside : BigInt.fromI32(0);
+
+  const below = pool.tick >= tickLower ? lowerOutside : timestamp.minus(lowerOutside);
+  const above = pool.tick < tickUpper ? upperOutside : timestamp.minus(upperOutside);
+  return timestamp.minus(below).minus(above);
+}
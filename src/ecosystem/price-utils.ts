@@ -4,13 +4,37 @@
  */
 
 import { BigInt, BigDecimal, Address, Bytes, log } from "@graphprotocol/graph-ts";
-import { PoolMetrics } from "../../generated/schema";
+import { Pool, PoolMetrics, UsdfcPegState } from "../../generated/schema";
+import { UniswapV3Pool } from "../../generated/SushiSwap_Pool_USDFC_axlUSDC/UniswapV3Pool";
+import { ERC20 } from "../../generated/SushiSwap_Pool_USDFC_axlUSDC/ERC20";
+import { getLatestFilPriceUSD } from "../core/oracle-state";
 
 // Known token addresses
 export const USDFC_ADDRESS = Address.fromString("0x80B98d3aa09ffff255c3ba4A241111Ff1262F045");
 export const WFIL_ADDRESS = Address.fromString("0x60E1773636CF5E4A227d9AC24F20fEca034ee25A");
 export const AXLUSDC_ADDRESS = Address.fromString("0xEB466342C4d449BC9f53A865D5Cb90586f405215");
 
+// Pool addresses
+export const USDFC_WFIL_POOL_ADDRESS = Address.fromString("0x4e07447bd38e60b94176764133788be1a0736b30");
+export const USDFC_AXLUSDC_POOL_ADDRESS = Address.fromString("0x21ca72fe39095db9642ca9cc694fa056f906037f");
+
+// Token decimals (USDFC and WFIL use 18)
+export const AXLUSDC_DECIMALS = 6;
+
+// USDFC peg monitoring
+export const USDFC_PEG_STATE_ID = "USDFC";
+export const DEPEG_THRESHOLD_PERCENT = BigDecimal.fromString("0.5"); // Off-peg at 0.5% from $1
+
+// SushiSwap V3 NonfungiblePositionManager, the pool-level owner of NFT positions
+export const NONFUNGIBLE_POSITION_MANAGER_ADDRESS = Address.fromString("0xF4d73326C13a4Fc5FD7A064217e12780e9Bd62c3");
+
+// Router addresses
+export const SUSHIXSWAP_ROUTER_1_ADDRESS = Address.fromString("0x804b526e5bF4349819fe2Db65349d0825870F8Ee");
+export const SUSHIXSWAP_ROUTER_2_ADDRESS = Address.fromString("0xd5607d184b1d6ecba94a07c217497fe9346010d9");
+
+// 2^192, the scale of a squared sqrtPriceX96
+const Q192 = BigInt.fromI32(2).pow(192).toBigDecimal();
+
 // Pool addresses and fee tiers
 export class PoolInfo {
   address: Address;
@@ -53,6 +77,140 @@ export function initKnownPools(): void {
   );
 }
 
+/**
+ * Known pool for a token pair and fee tier, in either token order
+ * Returns null for pairs without a known pool
+ */
+export function findKnownPool(tokenA: Address, tokenB: Address, feeTier: BigInt): PoolInfo | null {
+  if (KNOWN_POOLS.size == 0) {
+    initKnownPools();
+  }
+  const pools = KNOWN_POOLS.values();
+  for (let i = 0; i < pools.length; i++) {
+    const info = pools[i];
+    const samePair = (info.baseToken.equals(tokenA) && info.quoteToken.equals(tokenB))
+      || (info.baseToken.equals(tokenB) && info.quoteToken.equals(tokenA));
+    if (samePair && info.feeTier.equals(feeTier)) {
+      return info;
+    }
+  }
+  return null;
+}
+
+/**
+ * Get or create the Pool entity of a known pool, resolving token0/token1 by address order
+ * A new entity is seeded from the pool's on-chain state, so pools initialized before the
+ * start block do not begin at zero (the calls read the state at the end of the block)
+ * Returns null for pools not in KNOWN_POOLS
+ */
+export function getOrCreatePool(poolAddress: Address, timestamp: BigInt, blockNumber: BigInt): Pool | null {
+  let pool = Pool.load(poolAddress);
+
+  if (pool == null) {
+    if (KNOWN_POOLS.size == 0) {
+      initKnownPools();
+    }
+    const key = poolAddress.toHexString();
+    if (!KNOWN_POOLS.has(key)) {
+      log.warning("Unknown pool {}", [key]);
+      return null;
+    }
+    const info = KNOWN_POOLS.get(key);
+
+    pool = new Pool(poolAddress);
+    pool.baseToken = info.baseToken;
+    pool.quoteToken = info.quoteToken;
+    pool.baseTokenIsToken0 = sortsBefore(info.baseToken, info.quoteToken);
+    pool.token0 = pool.baseTokenIsToken0 ? info.baseToken : info.quoteToken;
+    pool.token1 = pool.baseTokenIsToken0 ? info.quoteToken : info.baseToken;
+    pool.token0Decimals = tokenDecimals(pool.token0);
+    pool.token1Decimals = tokenDecimals(pool.token1);
+    pool.feeTier = info.feeTier;
+    pool.dexProtocol = "SushiSwap V3";
+    pool.tick = 0;
+    pool.tickInitialized = false;
+    pool.sqrtPriceX96 = BigInt.fromI32(0);
+    pool.liquidity = BigInt.fromI32(0);
+    pool.balanceToken0 = BigInt.fromI32(0);
+    pool.balanceToken1 = BigInt.fromI32(0);
+    pool.openPositionCount = 0;
+    seedPoolState(pool, poolAddress);
+    pool.createdAt = timestamp;
+    pool.createdAtBlock = blockNumber;
+    pool.save();
+
+    log.info("Created Pool {} (token0 {}, token1 {})", [
+      key,
+      pool.token0.toHexString(),
+      pool.token1.toHexString()
+    ]);
+  }
+
+  return pool;
+}
+
+/**
+ * Copy price, tick, active liquidity and token balances from the pool contract, keeping
+ * the zero defaults for any call that reverts
+ */
+function seedPoolState(pool: Pool, poolAddress: Address): void {
+  const contract = UniswapV3Pool.bind(poolAddress);
+  const slot0 = contract.try_slot0();
+  if (!slot0.reverted && slot0.value.value0.gt(BigInt.fromI32(0))) {
+    pool.sqrtPriceX96 = slot0.value.value0;
+    pool.tick = slot0.value.value1;
+    pool.tickInitialized = true;
+  }
+  const liquidity = contract.try_liquidity();
+  if (!liquidity.reverted) {
+    pool.liquidity = liquidity.value;
+  }
+  pool.balanceToken0 = tokenBalance(pool.token0, poolAddress);
+  pool.balanceToken1 = tokenBalance(pool.token1, poolAddress);
+}
+
+function tokenBalance(token: Bytes, holder: Address): BigInt {
+  const balance = ERC20.bind(Address.fromBytes(token)).try_balanceOf(holder);
+  return balance.reverted ? BigInt.fromI32(0) : balance.value;
+}
+
+// Swap legs resolved from a pool's signed token0/token1 deltas
+export class SwapDirection {
+  inputToken: Bytes;
+  outputToken: Bytes;
+  inputAmount: BigInt;
+  outputAmount: BigInt;
+  isBuy: boolean;
+
+  constructor(inputToken: Bytes, outputToken: Bytes, inputAmount: BigInt, outputAmount: BigInt, isBuy: boolean) {
+    this.inputToken = inputToken;
+    this.outputToken = outputToken;
+    this.inputAmount = inputAmount;
+    this.outputAmount = outputAmount;
+    this.isBuy = isBuy;
+  }
+}
+
+/**
+ * Resolve a swap's input and output from the pool's point of view:
+ * a positive delta was paid into the pool, a negative one paid out
+ */
+export function resolveSwapDirection(pool: Pool, amount0: BigInt, amount1: BigInt): SwapDirection {
+  const token0In = amount0.gt(BigInt.fromI32(0));
+  const inputToken = token0In ? pool.token0 : pool.token1;
+  const outputToken = token0In ? pool.token1 : pool.token0;
+  const inputAmount = token0In ? amount0 : amount1;
+  const outputAmount = token0In ? amount1.abs() : amount0.abs();
+
+  return new SwapDirection(
+    inputToken,
+    outputToken,
+    inputAmount,
+    outputAmount,
+    isBuyTrade(amount0, amount1, Address.fromBytes(pool.token0), Address.fromBytes(pool.token1))
+  );
+}
+
 /**
  * Calculate token price in USD from pool reserves
  * Uses constant product formula: price = quoteReserve / baseReserve
@@ -74,6 +232,116 @@ export function calculateTokenPriceUSD(
   return price;
 }
 
+/**
+ * Whether tokenA is token0 in a pool with tokenB (V3 pools order tokens by address)
+ */
+export function sortsBefore(tokenA: Address, tokenB: Address): boolean {
+  return tokenA.toHexString() < tokenB.toHexString();
+}
+
+/**
+ * Price of token0 in token1 from a pool's sqrtPriceX96, adjusted for token decimals
+ */
+export function sqrtPriceX96ToToken0Price(sqrtPriceX96: BigInt, decimals0: i32, decimals1: i32): BigDecimal {
+  const rawPrice = sqrtPriceX96.times(sqrtPriceX96).toBigDecimal().div(Q192);
+  const decimalShift = BigInt.fromI32(10).pow(u8(decimals0)).toBigDecimal()
+    .div(BigInt.fromI32(10).pow(u8(decimals1)).toBigDecimal());
+  return rawPrice.times(decimalShift);
+}
+
+/**
+ * Decimals of a known pool token
+ */
+export function tokenDecimals(token: Bytes): i32 {
+  if (Address.fromBytes(token).equals(AXLUSDC_ADDRESS)) {
+    return AXLUSDC_DECIMALS;
+  }
+  return 18;
+}
+
+/**
+ * Convert a raw token amount to a decimal amount
+ */
+export function toTokenAmount(token: Bytes, amount: BigInt): BigDecimal {
+  return amount.toBigDecimal().div(BigInt.fromI32(10).pow(u8(tokenDecimals(token))).toBigDecimal());
+}
+
+/**
+ * Price of a pool's base token in its quote token from sqrtPriceX96, whichever of them is token0
+ */
+export function baseTokenPriceFromSqrtPrice(sqrtPriceX96: BigInt, baseToken: Address, quoteToken: Address): BigDecimal {
+  if (sortsBefore(baseToken, quoteToken)) {
+    return sqrtPriceX96ToToken0Price(sqrtPriceX96, tokenDecimals(baseToken), tokenDecimals(quoteToken));
+  }
+  const token0Price = sqrtPriceX96ToToken0Price(sqrtPriceX96, tokenDecimals(quoteToken), tokenDecimals(baseToken));
+  if (token0Price.equals(BigDecimal.fromString("0"))) {
+    return token0Price;
+  }
+  return BigDecimal.fromString("1").div(token0Price);
+}
+
+/**
+ * FIL price in USDFC implied by the USDFC/WFIL pool's sqrtPriceX96
+ */
+export function wfilPriceInUSDFC(sqrtPriceX96: BigInt): BigDecimal {
+  const usdfcPrice = baseTokenPriceFromSqrtPrice(sqrtPriceX96, USDFC_ADDRESS, WFIL_ADDRESS);
+  if (usdfcPrice.equals(BigDecimal.fromString("0"))) {
+    return usdfcPrice;
+  }
+  return BigDecimal.fromString("1").div(usdfcPrice);
+}
+
+/**
+ * USDFC price in axlUSDC implied by the USDFC/axlUSDC pool's sqrtPriceX96
+ */
+export function usdfcPriceInAxlUSDC(sqrtPriceX96: BigInt): BigDecimal {
+  return baseTokenPriceFromSqrtPrice(sqrtPriceX96, USDFC_ADDRESS, AXLUSDC_ADDRESS);
+}
+
+/**
+ * Latest USDFC market price in USD from the peg monitor, $1 before the first USDFC/axlUSDC swap
+ */
+export function getUSDFCPriceUSD(): BigDecimal {
+  let pegState = UsdfcPegState.load(USDFC_PEG_STATE_ID);
+  if (pegState == null) {
+    return BigDecimal.fromString("1");
+  }
+  return pegState.price;
+}
+
+/**
+ * Latest WFIL price in USD: the PriceFeed oracle, else the USDFC/WFIL pool price
+ */
+export function getWFILPriceUSD(): BigDecimal {
+  const oraclePrice = getLatestFilPriceUSD();
+  if (oraclePrice.gt(BigDecimal.fromString("0"))) {
+    return oraclePrice;
+  }
+
+  let wfilPool = PoolMetrics.load(USDFC_WFIL_POOL_ADDRESS);
+  if (wfilPool == null) {
+    return BigDecimal.fromString("0");
+  }
+  return wfilPool.quoteTokenPriceUSD;
+}
+
+/**
+ * Latest USD price of a known pool token
+ */
+export function getTokenPriceUSD(token: Bytes): BigDecimal {
+  const tokenAddr = Address.fromBytes(token);
+
+  if (tokenAddr.equals(USDFC_ADDRESS)) {
+    return getUSDFCPriceUSD();
+  } else if (tokenAddr.equals(WFIL_ADDRESS)) {
+    return getWFILPriceUSD();
+  } else if (tokenAddr.equals(AXLUSDC_ADDRESS)) {
+    return BigDecimal.fromString("1"); // axlUSDC is the USD reference
+  }
+
+  return BigDecimal.fromString("0");
+}
+
 /**
  * Get or create PoolMetrics entity
  */
@@ -98,6 +366,8 @@ export function getOrCreatePoolMetrics(
     metrics.createdAtBlock = blockNumber;
 
     // Initialize with zeros
+    metrics.sqrtPriceX96 = BigInt.fromI32(0);
+    metrics.baseTokenPrice = BigDecimal.fromString("0");
     metrics.baseTokenPriceUSD = BigDecimal.fromString("0");
     metrics.quoteTokenPriceUSD = BigDecimal.fromString("1"); // Assume stablecoin = $1
     metrics.reserveUSD = BigDecimal.fromString("0");
@@ -167,23 +437,20 @@ export function updatePoolMetrics(
 }
 
 /**
- * Estimate USD value from token amount
- * Uses approximate prices: WFIL = $1.31, axlUSDC = $1.00, USDFC = $0.99
+ * Refresh a pool's reserves and TVL from its token balances at live prices
  */
-export function estimateUSDValue(tokenAddress: Bytes, amount: BigInt): BigDecimal {
-  const amountDecimal = amount.toBigDecimal().div(BigDecimal.fromString("1000000000000000000")); // 18 decimals
-
-  const tokenAddr = Address.fromBytes(tokenAddress);
-
-  if (tokenAddr.equals(USDFC_ADDRESS)) {
-    return amountDecimal.times(BigDecimal.fromString("0.99"));
-  } else if (tokenAddr.equals(WFIL_ADDRESS)) {
-    return amountDecimal.times(BigDecimal.fromString("1.31"));
-  } else if (tokenAddr.equals(AXLUSDC_ADDRESS)) {
-    return amountDecimal; // $1.00
-  }
+export function updatePoolReserves(metrics: PoolMetrics, pool: Pool): void {
+  metrics.baseTokenReserve = pool.baseTokenIsToken0 ? pool.balanceToken0 : pool.balanceToken1;
+  metrics.quoteTokenReserve = pool.baseTokenIsToken0 ? pool.balanceToken1 : pool.balanceToken0;
+  metrics.reserveUSD = estimateUSDValue(pool.token0, pool.balanceToken0)
+    .plus(estimateUSDValue(pool.token1, pool.balanceToken1));
+}
 
-  return BigDecimal.fromString("0");
+/**
+ * Estimate USD value from token amount at live prices, using each token's decimals
+ */
+export function estimateUSDValue(tokenAddress: Bytes, amount: BigInt): BigDecimal {
+  return toTokenAmount(tokenAddress, amount).times(getTokenPriceUSD(tokenAddress));
 }
 
 /**
@@ -11,27 +11,73 @@
  * - Updates Account ecosystem metrics
  */
 
-import { BigInt, BigDecimal, Address, log, Bytes } from "@graphprotocol/graph-ts";
+import { BigInt, BigDecimal, Address, log, Bytes, ethereum } from "@graphprotocol/graph-ts";
 import {
   estimateUSDValue,
-  isBuyTrade,
+  getOrCreatePool,
+  resolveSwapDirection,
   getOrCreatePoolMetrics,
   updatePoolMetrics,
-  USDFC_ADDRESS,
-  WFIL_ADDRESS,
-  AXLUSDC_ADDRESS
+  updatePoolReserves,
+  wfilPriceInUSDFC,
+  getUSDFCPriceUSD,
+  getTokenPriceUSD,
+  baseTokenPriceFromSqrtPrice,
+  toTokenAmount,
+  findKnownPool,
+  USDFC_WFIL_POOL_ADDRESS,
+  SUSHIXSWAP_ROUTER_1_ADDRESS,
+  SUSHIXSWAP_ROUTER_2_ADDRESS,
+  USDFC_AXLUSDC_POOL_ADDRESS
 } from "./price-utils";
+import { recordUsdfcPegSwap } from "./peg-monitor";
+import {
+  isManagedOwner,
+  managedPositionId,
+  getOrCreateLiquidityPosition,
+  createLiquidityPosition,
+  recordPositionMint,
+  recordPositionBurn,
+  recordExistingLiquidity,
+  recordPositionCollect,
+  refreshCrossedPositions
+} from "./lp-positions";
+import {
+  recordMintLiquidity,
+  recordBurnLiquidity,
+  recordCollectBalances,
+  recordProtocolCollect,
+  recordFlashFees,
+  recordSwapState,
+  recordPoolInitialize,
+  updatePoolTick
+} from "./pool-liquidity";
+import { recordDexFilPrice } from "../core/price-deviation";
 import {
   BridgeRequested as BridgeRequestedEvent
 } from "../../generated/SushiXSwap_V2_Router1/SushiXSwapV2";
 import {
   Swap as SwapEvent,
   Mint as MintEvent,
-  Burn as BurnEvent
+  Burn as BurnEvent,
+  Collect as CollectEvent,
+  CollectProtocol as CollectProtocolEvent,
+  Flash as FlashEvent,
+  Initialize as InitializeEvent
 } from "../../generated/SushiSwap_Pool_USDFC_axlUSDC/UniswapV3Pool";
+import {
+  NonfungiblePositionManager,
+  IncreaseLiquidity as IncreaseLiquidityEvent,
+  DecreaseLiquidity as DecreaseLiquidityEvent,
+  Collect as PositionCollectEvent,
+  Transfer as PositionTransferEvent
+} from "../../generated/SushiSwap_PositionManager/NonfungiblePositionManager";
 import {
   DEXTrade,
   DEXProfile,
+  DEXRouter,
+  Pool,
+  LiquidityPosition,
   Account,
   Transaction
 } from "../../generated/schema";
@@ -61,18 +107,28 @@ export function handleBridgeRequested(event: BridgeRequestedEvent): void {
   // Create or update DEXProfile
   let dexProfile = getOrCreateDEXProfile(event.params.user);
   dexProfile.totalTrades = dexProfile.totalTrades.plus(BigInt.fromI32(1));
-  dexProfile.totalVolume = dexProfile.totalVolume.plus(event.params.amount);
+  if (event.params.tokenIn.equals(usdfcAddress)) {
+    dexProfile.totalVolume = dexProfile.totalVolume.plus(event.params.amount);
+  }
   dexProfile.save();
 
+  // The SushiXSwap router emitting the request
+  let router = getOrCreateDEXRouter(event.address, event.block.timestamp);
+  router.tradeCount = router.tradeCount.plus(BigInt.fromI32(1));
+  router.lastSeenTimestamp = event.block.timestamp;
+  router.lastSeenBlock = event.block.number;
+  router.save();
+
   // Create DEXTrade entity
-  let tradeId = event.transaction.hash
-    .toHexString()
-    .concat("-")
-    .concat(event.logIndex.toString());
+  let tradeId = event.transaction.hash.concatI32(event.logIndex.toI32());
 
-  let trade = new DEXTrade(Bytes.fromHexString(tradeId));
+  let trade = new DEXTrade(tradeId);
   trade.trader = fromAccount.id;
+  trade.router = router.id;
   trade.dexProfile = dexProfile.id;
+  trade.sender = event.params.user;
+  trade.recipient = event.params.user;
+  trade.origin = event.transaction.from;
   trade.dexProtocol = "SushiXSwap V2";
   trade.tradeType = "EXACT_INPUT_SINGLE"; // Simplified for bridge swaps
 
@@ -96,7 +152,7 @@ export function handleBridgeRequested(event: BridgeRequestedEvent): void {
 
   trade.save();
 
-  log.info("Created DEXTrade {} for SushiXSwap bridge", [tradeId]);
+  log.info("Created DEXTrade {} for SushiXSwap bridge", [tradeId.toHexString()]);
 }
 
 /**
@@ -190,6 +246,35 @@ function getOrCreateDEXProfile(address: Address): DEXProfile {
   return profile;
 }
 
+/**
+ * Get or create DEXRouter entity, naming known SushiSwap routers
+ */
+function getOrCreateDEXRouter(address: Address, timestamp: BigInt): DEXRouter {
+  let router = DEXRouter.load(address);
+
+  if (router == null) {
+    router = new DEXRouter(address);
+    if (address.equals(SUSHIXSWAP_ROUTER_1_ADDRESS)) {
+      router.routerType = "SUSHISWAP_ROUTER";
+      router.name = "SushiXSwap V2 Router 1";
+    } else if (address.equals(SUSHIXSWAP_ROUTER_2_ADDRESS)) {
+      router.routerType = "SUSHISWAP_ROUTER";
+      router.name = "SushiXSwap V2 Router 2";
+    } else {
+      router.routerType = "OTHER";
+      router.name = "Unknown";
+    }
+
+    router.tradeCount = BigInt.fromI32(0);
+    router.volumeUSD = BigDecimal.fromString("0");
+    router.firstSeenTimestamp = timestamp;
+    router.lastSeenTimestamp = timestamp;
+    router.lastSeenBlock = BigInt.fromI32(0);
+  }
+
+  return router;
+}
+
 /**
  * Handle direct swaps in SushiSwap V3 pools (USDFC/WFIL, USDFC/axlUSDC)
  */
@@ -198,105 +283,160 @@ export function handleSwap(event: SwapEvent): void {
     event.transaction.hash.toHexString()
   ]);
 
-  // Create or update Account entities
-  let sender = getOrCreateAccount(event.params.sender);
-  let recipient = getOrCreateAccount(event.params.recipient);
+  // Resolve the pool's token0/token1 orientation
+  const poolAddress = event.address;
+  let pool = getOrCreatePool(poolAddress, event.block.timestamp, event.block.number);
+  if (pool == null) {
+    return;
+  }
+  const baseToken = Address.fromBytes(pool.baseToken);
+  const quoteToken = Address.fromBytes(pool.quoteToken);
+  const feeTier = pool.feeTier;
 
-  // Update account metrics
-  sender.tokenTransferCount = sender.tokenTransferCount.plus(BigInt.fromI32(1));
-  sender.dexActivityCount = sender.dexActivityCount.plus(BigInt.fromI32(1));
-  sender.lastActiveBlock = event.block.number;
-  sender.lastActiveTimestamp = event.block.timestamp;
-  sender.save();
+  // Input/output and BUY/SELL from the signed deltas
+  const direction = resolveSwapDirection(pool, event.params.amount0, event.params.amount1);
+  const usdfcAmount = (pool.baseTokenIsToken0 ? event.params.amount0 : event.params.amount1).abs();
 
-  recipient.dexActivityCount = recipient.dexActivityCount.plus(BigInt.fromI32(1));
-  recipient.lastActiveBlock = event.block.number;
-  recipient.lastActiveTimestamp = event.block.timestamp;
-  recipient.save();
+  // The pool's sender is usually a router; the trader is whoever signed the transaction
+  const origin = event.transaction.from;
+  let trader = getOrCreateAccount(origin);
+
+  // Update account metrics
+  trader.tokenTransferCount = trader.tokenTransferCount.plus(BigInt.fromI32(1));
+  trader.dexActivityCount = trader.dexActivityCount.plus(BigInt.fromI32(1));
+  trader.dexVolume = trader.dexVolume.plus(usdfcAmount);
+  trader.lastActiveBlock = event.block.number;
+  trader.lastActiveTimestamp = event.block.timestamp;
+  trader.save();
+
+  // Output sent on to someone other than the trader or the router
+  if (!event.params.recipient.equals(origin) && !event.params.recipient.equals(event.params.sender)) {
+    let recipient = getOrCreateAccount(event.params.recipient);
+    recipient.dexActivityCount = recipient.dexActivityCount.plus(BigInt.fromI32(1));
+    recipient.lastActiveBlock = event.block.number;
+    recipient.lastActiveTimestamp = event.block.timestamp;
+    recipient.save();
+  }
 
   // Create or update DEXProfile
-  let dexProfile = getOrCreateDEXProfile(event.params.sender);
+  let dexProfile = getOrCreateDEXProfile(origin);
   dexProfile.totalTrades = dexProfile.totalTrades.plus(BigInt.fromI32(1));
-
-  // Calculate volume from amount0 or amount1
-  let volume = event.params.amount0.gt(BigInt.fromI32(0))
-    ? event.params.amount0
-    : event.params.amount1.abs();
-  dexProfile.totalVolume = dexProfile.totalVolume.plus(volume);
+  dexProfile.totalVolume = dexProfile.totalVolume.plus(usdfcAmount);
   dexProfile.save();
 
-  // Determine pool tokens and fee tier
-  const poolAddress = event.address;
-  let baseToken = USDFC_ADDRESS;
-  let quoteToken = WFIL_ADDRESS; // Default, will detect
-  let feeTier = BigInt.fromI32(500); // Default 0.05%
+  // Pool prices before and after this swap, for price impact
+  let poolMetrics = getOrCreatePoolMetrics(
+    poolAddress,
+    baseToken,
+    quoteToken,
+    feeTier,
+    event.block.timestamp,
+    event.block.number
+  );
+  // The pool's stored price is the one the swap started from (zero before the pool is priced)
+  const priceBefore = baseTokenPriceFromSqrtPrice(pool.sqrtPriceX96, baseToken, quoteToken);
+  const priceAfter = baseTokenPriceFromSqrtPrice(event.params.sqrtPriceX96, baseToken, quoteToken);
+
+  // Track the USDFC peg against axlUSDC
+  if (poolAddress.equals(USDFC_AXLUSDC_POOL_ADDRESS)) {
+    recordUsdfcPegSwap(
+      event.params.sqrtPriceX96,
+      event.params.amount0,
+      event.params.amount1,
+      event.transaction.hash,
+      event.logIndex,
+      event.block.number,
+      event.block.timestamp
+    );
+  }
 
-  // Detect pool based on address
-  if (poolAddress.toHexString() == "0x21ca72fe39095db9642ca9cc694fa056f906037f") {
-    quoteToken = AXLUSDC_ADDRESS;
-    feeTier = BigInt.fromI32(100); // 0.01%
+  // Compare the pool-implied FIL price, in USD at the USDFC market price, with the oracle
+  if (poolAddress.equals(USDFC_WFIL_POOL_ADDRESS)) {
+    recordDexFilPrice(
+      poolAddress,
+      wfilPriceInUSDFC(event.params.sqrtPriceX96).times(getUSDFCPriceUSD()),
+      event.transaction.hash,
+      event.logIndex,
+      event.block.number,
+      event.block.timestamp
+    );
   }
 
-  // Determine BUY vs SELL
-  const isBuy = isBuyTrade(event.params.amount0, event.params.amount1, baseToken, quoteToken);
+  // Apply the swap to the pool's balances, price and tick, crossing the ticks in between
+  recordSwapState(
+    pool,
+    event.params.amount0,
+    event.params.amount1,
+    event.params.sqrtPriceX96,
+    event.params.liquidity
+  );
+  const crossedTicks = updatePoolTick(pool, event.params.tick, event.block.timestamp);
+  pool.save();
+  refreshCrossedPositions(pool, crossedTicks);
+  updatePoolReserves(poolMetrics, pool);
+
+  const isBuy = direction.isBuy;
 
   // Create DEXTrade entity
-  let tradeId = event.transaction.hash
-    .toHexString()
-    .concat("-")
-    .concat(event.logIndex.toString());
+  let tradeId = event.transaction.hash.concatI32(event.logIndex.toI32());
 
-  let trade = new DEXTrade(Bytes.fromHexString(tradeId));
-  trade.trader = sender.id;
+  let trade = new DEXTrade(tradeId);
+  trade.trader = trader.id;
   trade.dexProfile = dexProfile.id;
-  trade.dexProtocol = "SushiSwap V3";
+  trade.sender = event.params.sender;
+  trade.recipient = event.params.recipient;
+  trade.origin = origin;
+  trade.dexProtocol = pool.dexProtocol;
   trade.tradeType = isBuy ? "BUY" : "SELL";
 
-  // Determine input/output based on swap direction
-  trade.inputToken = event.params.amount0.gt(BigInt.fromI32(0)) ? baseToken : quoteToken;
-  trade.outputToken = event.params.amount0.lt(BigInt.fromI32(0)) ? baseToken : quoteToken;
-  trade.inputAmount = event.params.amount0.abs();
-  trade.outputAmount = event.params.amount1.abs();
+  // Input/output follow the pool's orientation
+  trade.inputToken = direction.inputToken;
+  trade.outputToken = direction.outputToken;
+  trade.inputAmount = direction.inputAmount;
+  trade.outputAmount = direction.outputAmount;
 
   // GeckoTerminal Enhancement: Calculate USD values
   trade.inputAmountUSD = estimateUSDValue(trade.inputToken, trade.inputAmount);
   trade.outputAmountUSD = estimateUSDValue(trade.outputToken, trade.outputAmount);
   trade.volumeUSD = trade.inputAmountUSD; // Use input value as volume
 
-  // GeckoTerminal Enhancement: Set price context
-  trade.baseTokenPriceUSD = BigDecimal.fromString("0.99"); // USDFC approximate price
-  trade.quoteTokenPriceUSD = quoteToken.equals(WFIL_ADDRESS)
-    ? BigDecimal.fromString("1.31")
-    : BigDecimal.fromString("1.00");
-  trade.poolReserveUSD = BigDecimal.fromString("0"); // Will be calculated separately
+  // GeckoTerminal Enhancement: Set price context from live prices
+  trade.baseTokenPriceUSD = getTokenPriceUSD(baseToken);
+  trade.quoteTokenPriceUSD = getTokenPriceUSD(quoteToken);
+  trade.poolReserveUSD = poolMetrics.reserveUSD;
 
   // GeckoTerminal Enhancement: Set pool context
   trade.poolAddress = poolAddress;
   trade.poolFeeTier = feeTier;
 
-  trade.price = BigDecimal.fromString("0"); // Can calculate from sqrtPriceX96
-  trade.slippage = BigDecimal.fromString("0");
-  trade.fee = BigInt.fromI32(0);
-  trade.feePercentage = BigDecimal.fromString("0");
+  priceSwap(trade, event, pool, priceBefore, priceAfter);
   trade.profitLoss = BigInt.fromI32(0);
-  trade.priceImpact = BigDecimal.fromString("0");
-  trade.executionQuality = BigDecimal.fromString("0");
 
   trade.blockNumber = event.block.number;
   trade.blockTimestamp = event.block.timestamp;
   trade.gasUsed = BigInt.fromI32(0);
 
+  // Credit the router or aggregator that called the pool for the trader
+  if (!event.params.sender.equals(origin)) {
+    let router = getOrCreateDEXRouter(event.params.sender, event.block.timestamp);
+    router.tradeCount = router.tradeCount.plus(BigInt.fromI32(1));
+    router.volumeUSD = router.volumeUSD.plus(trade.volumeUSD);
+    router.lastSeenTimestamp = event.block.timestamp;
+    router.lastSeenBlock = event.block.number;
+    router.save();
+    trade.router = router.id;
+  }
+
   trade.save();
 
-  // GeckoTerminal Enhancement: Update PoolMetrics
-  let poolMetrics = getOrCreatePoolMetrics(
-    poolAddress,
-    baseToken,
-    quoteToken,
-    feeTier,
-    event.block.timestamp,
-    event.block.number
-  );
+  // GeckoTerminal Enhancement: Update PoolMetrics with the post-swap price
+  poolMetrics.sqrtPriceX96 = event.params.sqrtPriceX96;
+  poolMetrics.baseTokenPrice = priceAfter;
+  poolMetrics.baseTokenPriceUSD = getTokenPriceUSD(baseToken);
+  if (priceAfter.gt(BigDecimal.fromString("0"))) {
+    poolMetrics.quoteTokenPriceUSD = poolMetrics.baseTokenPriceUSD.div(priceAfter);
+  }
+  poolMetrics.save();
   updatePoolMetrics(
     poolAddress,
     trade.volumeUSD,
@@ -305,7 +445,48 @@ export function handleSwap(event: SwapEvent): void {
     event.block.number
   );
 
-  log.info("Created DEXTrade {} for SushiSwap V3 swap ({})", [tradeId, trade.tradeType]);
+  log.info("Created DEXTrade {} for SushiSwap V3 swap ({})", [tradeId.toHexString(), trade.tradeType]);
+}
+
+/**
+ * Price a swap from the pool's sqrtPriceX96 before and after it
+ * price is USDFC in the quote token after the swap; impact and slippage are against the pre-swap price
+ */
+function priceSwap(
+  trade: DEXTrade,
+  event: SwapEvent,
+  pool: Pool,
+  priceBefore: BigDecimal,
+  priceAfter: BigDecimal
+): void {
+  const zero = BigDecimal.fromString("0");
+  const hundred = BigDecimal.fromString("100");
+
+  trade.price = priceAfter;
+  trade.priceImpact = zero;
+  trade.slippage = zero;
+
+  const baseIsToken0 = pool.baseTokenIsToken0;
+  const baseAmount = toTokenAmount(pool.baseToken, (baseIsToken0 ? event.params.amount0 : event.params.amount1).abs());
+  const quoteAmount = toTokenAmount(pool.quoteToken, (baseIsToken0 ? event.params.amount1 : event.params.amount0).abs());
+
+  if (priceBefore.gt(zero)) {
+    // How far the swap moved the pool price
+    let impact = priceAfter.minus(priceBefore).div(priceBefore).times(hundred);
+    trade.priceImpact = impact.lt(zero) ? impact.neg() : impact;
+
+    // Average fill price (LP fee included) against the pre-swap price
+    if (baseAmount.gt(zero)) {
+      let slippage = quoteAmount.div(baseAmount).minus(priceBefore).div(priceBefore).times(hundred);
+      trade.slippage = slippage.lt(zero) ? slippage.neg() : slippage;
+    }
+  }
+
+  // LP fee on the input amount; the fee tier is in hundredths of a basis point
+  trade.fee = trade.inputAmount.times(pool.feeTier).div(BigInt.fromI32(1000000));
+  trade.feePercentage = pool.feeTier.toBigDecimal().div(BigDecimal.fromString("10000"));
+
+  trade.executionQuality = trade.slippage.lt(hundred) ? hundred.minus(trade.slippage) : zero;
 }
 
 /**
@@ -316,96 +497,478 @@ export function handleMint(event: MintEvent): void {
     event.transaction.hash.toHexString()
   ]);
 
-  // Create or update Account
-  let owner = getOrCreateAccount(event.params.owner);
+  let pool = getOrCreatePool(event.address, event.block.timestamp, event.block.number);
+  if (pool == null) {
+    return;
+  }
+
+  // Reference the range's ticks first so the position's time in range starts from them
+  recordMintLiquidity(
+    pool,
+    event.params.tickLower,
+    event.params.tickUpper,
+    event.params.amount,
+    event.params.amount0,
+    event.params.amount1,
+    event.block.timestamp,
+    event.block.number
+  );
+
+  // NFT positions are updated by the position manager's IncreaseLiquidity that follows
+  if (isManagedOwner(event.params.owner)) {
+    pool.save();
+    refreshPoolReserves(pool, event);
+    return;
+  }
+
+  // Add the liquidity to the owner's position for this tick range
+  const owner = event.params.owner;
+  let position = getOrCreateLiquidityPosition(
+    pool,
+    owner,
+    event.params.tickLower,
+    event.params.tickUpper,
+    event.block.timestamp,
+    event.block.number
+  );
+  recordPositionMint(
+    pool,
+    position,
+    event.params.amount,
+    event.params.amount0,
+    event.params.amount1,
+    event.block.timestamp
+  );
+  position.save();
+  pool.save();
+  const reserveUSD = refreshPoolReserves(pool, event);
+
+  createLiquidityTrade(
+    event,
+    pool,
+    position,
+    event.params.sender,
+    owner,
+    "LIQUIDITY_ADD",
+    event.params.amount0,
+    event.params.amount1,
+    reserveUSD
+  );
+}
+
+/**
+ * Handle liquidity removal from SushiSwap V3 pools
+ */
+export function handleBurn(event: BurnEvent): void {
+  log.info("SushiSwap V3 Burn (liquidity remove) detected at tx {}", [
+    event.transaction.hash.toHexString()
+  ]);
+
+  let pool = getOrCreatePool(event.address, event.block.timestamp, event.block.number);
+  if (pool == null) {
+    return;
+  }
+
+  // NFT positions are updated by the position manager's DecreaseLiquidity that follows
+  if (isManagedOwner(event.params.owner)) {
+    recordBurnLiquidity(
+      pool,
+      event.params.tickLower,
+      event.params.tickUpper,
+      event.params.amount,
+      event.block.timestamp,
+      event.block.number
+    );
+    pool.save();
+    refreshPoolReserves(pool, event);
+    return;
+  }
+
+  const owner = event.params.owner;
+  let position = getOrCreateLiquidityPosition(
+    pool,
+    owner,
+    event.params.tickLower,
+    event.params.tickUpper,
+    event.block.timestamp,
+    event.block.number
+  );
+  recordPositionBurn(
+    pool,
+    position,
+    event.params.amount,
+    event.params.amount0,
+    event.params.amount1,
+    event.block.timestamp
+  );
+  position.save();
+  recordBurnLiquidity(
+    pool,
+    event.params.tickLower,
+    event.params.tickUpper,
+    event.params.amount,
+    event.block.timestamp,
+    event.block.number
+  );
+  pool.save();
+  const reserveUSD = refreshPoolReserves(pool, event);
+
+  // Zero-liquidity burns only poke the position's fees
+  if (event.params.amount.equals(BigInt.fromI32(0))) {
+    return;
+  }
+
+  createLiquidityTrade(
+    event,
+    pool,
+    position,
+    event.params.owner,
+    owner,
+    "LIQUIDITY_REMOVE",
+    event.params.amount0,
+    event.params.amount1,
+    reserveUSD
+  );
+}
+
+/**
+ * Handle fee and principal collection from SushiSwap V3 positions
+ */
+export function handleCollect(event: CollectEvent): void {
+  log.info("SushiSwap V3 Collect detected at tx {}", [
+    event.transaction.hash.toHexString()
+  ]);
+
+  let pool = getOrCreatePool(event.address, event.block.timestamp, event.block.number);
+  if (pool == null) {
+    return;
+  }
+
+  recordCollectBalances(pool, event.params.amount0, event.params.amount1);
+  pool.save();
+  refreshPoolReserves(pool, event);
+
+  // NFT positions are updated by the position manager's Collect that follows
+  if (isManagedOwner(event.params.owner)) {
+    return;
+  }
+
+  const ownerAddress = event.params.owner;
+  let position = getOrCreateLiquidityPosition(
+    pool,
+    ownerAddress,
+    event.params.tickLower,
+    event.params.tickUpper,
+    event.block.timestamp,
+    event.block.number
+  );
+  recordPositionCollect(pool, position, event.params.amount0, event.params.amount1, event.block.timestamp);
+  position.save();
+
+  let owner = getOrCreateAccount(ownerAddress);
   owner.dexActivityCount = owner.dexActivityCount.plus(BigInt.fromI32(1));
   owner.lastActiveBlock = event.block.number;
   owner.lastActiveTimestamp = event.block.timestamp;
   owner.save();
+}
 
-  // Create or update DEXProfile
-  let dexProfile = getOrCreateDEXProfile(event.params.owner);
-  dexProfile.totalTrades = dexProfile.totalTrades.plus(BigInt.fromI32(1));
+/**
+ * Handle pool initialization, which sets the starting price and tick
+ */
+export function handleInitialize(event: InitializeEvent): void {
+  let pool = getOrCreatePool(event.address, event.block.timestamp, event.block.number);
+  if (pool == null) {
+    return;
+  }
 
-  // Track liquidity provision volume
-  let volume = event.params.amount0.plus(event.params.amount1);
-  dexProfile.totalVolume = dexProfile.totalVolume.plus(volume);
-  dexProfile.save();
+  recordPoolInitialize(pool, event.params.sqrtPriceX96, event.params.tick, event.block.timestamp);
+  pool.save();
+  refreshPoolReserves(pool, event);
+}
 
-  // Create DEXTrade entity for liquidity provision
-  let tradeId = event.transaction.hash
-    .toHexString()
-    .concat("-")
-    .concat(event.logIndex.toString());
+/**
+ * Handle protocol fee withdrawals from SushiSwap V3 pools
+ */
+export function handleCollectProtocol(event: CollectProtocolEvent): void {
+  let pool = getOrCreatePool(event.address, event.block.timestamp, event.block.number);
+  if (pool == null) {
+    return;
+  }
 
-  let trade = new DEXTrade(Bytes.fromHexString(tradeId));
-  trade.trader = owner.id;
-  trade.dexProfile = dexProfile.id;
-  trade.dexProtocol = "SushiSwap V3";
-  trade.tradeType = "ADD_LIQUIDITY";
+  recordProtocolCollect(pool, event.params.amount0, event.params.amount1);
+  pool.save();
+  refreshPoolReserves(pool, event);
+}
 
-  trade.inputToken = Bytes.fromHexString("0x0000000000000000000000000000000000000000");
-  trade.outputToken = Bytes.fromHexString("0x0000000000000000000000000000000000000000");
-  trade.inputAmount = event.params.amount0;
-  trade.outputAmount = event.params.amount1;
+/**
+ * Handle flash loans from SushiSwap V3 pools, whose fees stay in the pool
+ */
+export function handleFlash(event: FlashEvent): void {
+  let pool = getOrCreatePool(event.address, event.block.timestamp, event.block.number);
+  if (pool == null) {
+    return;
+  }
 
-  trade.price = BigDecimal.fromString("0");
-  trade.slippage = BigDecimal.fromString("0");
-  trade.fee = BigInt.fromI32(0);
-  trade.feePercentage = BigDecimal.fromString("0");
-  trade.profitLoss = BigInt.fromI32(0);
-  trade.priceImpact = BigDecimal.fromString("0");
-  trade.executionQuality = BigDecimal.fromString("0");
+  recordFlashFees(pool, event.params.paid0, event.params.paid1);
+  pool.save();
+  refreshPoolReserves(pool, event);
+}
 
-  trade.blockNumber = event.block.number;
-  trade.blockTimestamp = event.block.timestamp;
-  trade.gasUsed = BigInt.fromI32(0);
+/**
+ * Load the position of a position manager NFT, creating it from the manager's positions() on first sight
+ * Returns null for NFTs in pools other than the known ones
+ * NFTs first seen after their mint open at the liquidity the manager reports, less the event's own change
+ */
+function loadManagedPosition(
+  event: ethereum.Event,
+  tokenId: BigInt,
+  liquidityDelta: BigInt,
+  isMint: boolean
+): LiquidityPosition | null {
+  const id = managedPositionId(tokenId);
+  let position = LiquidityPosition.load(id);
+  if (position != null) {
+    position.lastUpdateTimestamp = event.block.timestamp;
+    position.lastUpdateBlock = event.block.number;
+    return position;
+  }
 
-  trade.save();
+  const manager = NonfungiblePositionManager.bind(event.address);
+  const details = manager.try_positions(tokenId);
+  if (details.reverted) {
+    return null;
+  }
+  const info = findKnownPool(details.value.value2, details.value.value3, BigInt.fromI32(details.value.value4));
+  if (info == null) {
+    return null;
+  }
+  let pool = getOrCreatePool(info.address, event.block.timestamp, event.block.number);
+  if (pool == null) {
+    return null;
+  }
+
+  // The mint's Transfer sets the holder; an NFT minted earlier is read from the manager
+  let owner = Address.zero();
+  if (!isMint) {
+    const holder = manager.try_ownerOf(tokenId);
+    if (!holder.reverted) {
+      owner = holder.value;
+      getOrCreateAccount(owner).save();
+    }
+  }
+
+  position = createLiquidityPosition(
+    id,
+    pool,
+    owner,
+    details.value.value5,
+    details.value.value6,
+    event.block.timestamp,
+    event.block.number
+  );
+  position.tokenId = tokenId;
 
-  log.info("Created DEXTrade {} for liquidity provision", [tradeId]);
+  const existingLiquidity = details.value.value7.minus(liquidityDelta);
+  if (!isMint && existingLiquidity.gt(BigInt.fromI32(0))) {
+    recordExistingLiquidity(pool, position, existingLiquidity, event.block.timestamp, event.block.number);
+    pool.save();
+  }
+  return position;
 }
 
 /**
- * Handle liquidity removal from SushiSwap V3 pools
+ * Handle liquidity added to a position manager NFT
  */
-export function handleBurn(event: BurnEvent): void {
-  log.info("SushiSwap V3 Burn (liquidity remove) detected at tx {}", [
-    event.transaction.hash.toHexString()
-  ]);
+export function handleIncreaseLiquidity(event: IncreaseLiquidityEvent): void {
+  let position = loadManagedPosition(event, event.params.tokenId, event.params.liquidity, false);
+  if (position == null) {
+    return;
+  }
+  let pool = getOrCreatePool(Address.fromBytes(position.pool), event.block.timestamp, event.block.number);
+  if (pool == null) {
+    return;
+  }
+
+  recordPositionMint(
+    pool,
+    position,
+    event.params.liquidity,
+    event.params.amount0,
+    event.params.amount1,
+    event.block.timestamp
+  );
+  position.save();
+  pool.save();
+  const reserveUSD = refreshPoolReserves(pool, event);
+
+  createLiquidityTrade(
+    event,
+    pool,
+    position,
+    event.address,
+    Address.fromBytes(position.owner),
+    "LIQUIDITY_ADD",
+    event.params.amount0,
+    event.params.amount1,
+    reserveUSD
+  );
+}
+
+/**
+ * Handle liquidity removed from a position manager NFT
+ */
+export function handleDecreaseLiquidity(event: DecreaseLiquidityEvent): void {
+  let position = loadManagedPosition(event, event.params.tokenId, event.params.liquidity.neg(), false);
+  if (position == null) {
+    return;
+  }
+  let pool = getOrCreatePool(Address.fromBytes(position.pool), event.block.timestamp, event.block.number);
+  if (pool == null) {
+    return;
+  }
+
+  recordPositionBurn(
+    pool,
+    position,
+    event.params.liquidity,
+    event.params.amount0,
+    event.params.amount1,
+    event.block.timestamp
+  );
+  position.save();
+  pool.save();
+  const reserveUSD = refreshPoolReserves(pool, event);
+
+  // Zero-liquidity decreases only poke the position's fees
+  if (event.params.liquidity.equals(BigInt.fromI32(0))) {
+    return;
+  }
+
+  createLiquidityTrade(
+    event,
+    pool,
+    position,
+    event.address,
+    Address.fromBytes(position.owner),
+    "LIQUIDITY_REMOVE",
+    event.params.amount0,
+    event.params.amount1,
+    reserveUSD
+  );
+}
+
+/**
+ * Handle fees and principal collected from a position manager NFT
+ */
+export function handlePositionCollect(event: PositionCollectEvent): void {
+  let position = loadManagedPosition(event, event.params.tokenId, BigInt.fromI32(0), false);
+  if (position == null) {
+    return;
+  }
+  let pool = getOrCreatePool(Address.fromBytes(position.pool), event.block.timestamp, event.block.number);
+  if (pool == null) {
+    return;
+  }
+
+  recordPositionCollect(pool, position, event.params.amount0, event.params.amount1, event.block.timestamp);
+  position.save();
 
+  let owner = getOrCreateAccount(Address.fromBytes(position.owner));
+  owner.dexActivityCount = owner.dexActivityCount.plus(BigInt.fromI32(1));
+  owner.lastActiveBlock = event.block.number;
+  owner.lastActiveTimestamp = event.block.timestamp;
+  owner.save();
+}
+
+/**
+ * Handle a position manager NFT changing hands; the position follows its holder
+ */
+export function handlePositionTransfer(event: PositionTransferEvent): void {
+  const isMint = event.params.from.equals(Address.zero());
+  let position = loadManagedPosition(event, event.params.tokenId, BigInt.fromI32(0), isMint);
+  if (position == null) {
+    return;
+  }
+
+  // A burned NFT keeps its last holder
+  if (!event.params.to.equals(Address.zero())) {
+    getOrCreateAccount(event.params.to).save();
+    position.owner = event.params.to;
+  }
+  position.save();
+}
+
+/**
+ * Revalue a pool's reserves after a liquidity change, returning its TVL in USD
+ */
+function refreshPoolReserves(pool: Pool, event: ethereum.Event): BigDecimal {
+  let metrics = getOrCreatePoolMetrics(
+    Address.fromBytes(pool.id),
+    Address.fromBytes(pool.baseToken),
+    Address.fromBytes(pool.quoteToken),
+    pool.feeTier,
+    event.block.timestamp,
+    event.block.number
+  );
+  updatePoolReserves(metrics, pool);
+  metrics.lastUpdateTimestamp = event.block.timestamp;
+  metrics.lastUpdateBlock = event.block.number;
+  metrics.save();
+  return metrics.reserveUSD;
+}
+
+/**
+ * Record a liquidity add or remove as a DEXTrade: token0 in the input leg, token1 in the output leg
+ */
+function createLiquidityTrade(
+  event: ethereum.Event,
+  pool: Pool,
+  position: LiquidityPosition,
+  sender: Address,
+  ownerAddress: Address,
+  tradeType: string,
+  amount0: BigInt,
+  amount1: BigInt,
+  poolReserveUSD: BigDecimal
+): void {
   // Create or update Account
-  let owner = getOrCreateAccount(event.params.owner);
+  let owner = getOrCreateAccount(ownerAddress);
   owner.dexActivityCount = owner.dexActivityCount.plus(BigInt.fromI32(1));
   owner.lastActiveBlock = event.block.number;
   owner.lastActiveTimestamp = event.block.timestamp;
   owner.save();
 
   // Create or update DEXProfile
-  let dexProfile = getOrCreateDEXProfile(event.params.owner);
+  let dexProfile = getOrCreateDEXProfile(ownerAddress);
   dexProfile.totalTrades = dexProfile.totalTrades.plus(BigInt.fromI32(1));
-
-  // Track liquidity removal volume
-  let volume = event.params.amount0.plus(event.params.amount1);
-  dexProfile.totalVolume = dexProfile.totalVolume.plus(volume);
+  dexProfile.totalVolume = dexProfile.totalVolume.plus(pool.baseTokenIsToken0 ? amount0 : amount1);
   dexProfile.save();
 
-  // Create DEXTrade entity for liquidity removal
-  let tradeId = event.transaction.hash
-    .toHexString()
-    .concat("-")
-    .concat(event.logIndex.toString());
-
-  let trade = new DEXTrade(Bytes.fromHexString(tradeId));
+  let tradeId = event.transaction.hash.concatI32(event.logIndex.toI32());
+  let trade = new DEXTrade(tradeId);
   trade.trader = owner.id;
   trade.dexProfile = dexProfile.id;
-  trade.dexProtocol = "SushiSwap V3";
-  trade.tradeType = "REMOVE_LIQUIDITY";
-
-  trade.inputToken = Bytes.fromHexString("0x0000000000000000000000000000000000000000");
-  trade.outputToken = Bytes.fromHexString("0x0000000000000000000000000000000000000000");
-  trade.inputAmount = event.params.amount0;
-  trade.outputAmount = event.params.amount1;
+  trade.sender = sender;
+  trade.recipient = ownerAddress;
+  trade.origin = event.transaction.from;
+  trade.position = position.id;
+  trade.dexProtocol = pool.dexProtocol;
+  trade.tradeType = tradeType;
+
+  trade.inputToken = pool.token0;
+  trade.outputToken = pool.token1;
+  trade.inputAmount = amount0;
+  trade.outputAmount = amount1;
+
+  trade.inputAmountUSD = estimateUSDValue(pool.token0, amount0);
+  trade.outputAmountUSD = estimateUSDValue(pool.token1, amount1);
+  trade.volumeUSD = trade.inputAmountUSD.plus(trade.outputAmountUSD);
+
+  trade.baseTokenPriceUSD = getTokenPriceUSD(pool.baseToken);
+  trade.quoteTokenPriceUSD = getTokenPriceUSD(pool.quoteToken);
+  trade.poolReserveUSD = poolReserveUSD;
+  trade.poolAddress = pool.id;
+  trade.poolFeeTier = pool.feeTier;
 
   trade.price = BigDecimal.fromString("0");
   trade.slippage = BigDecimal.fromString("0");
@@ -421,5 +984,5 @@ export function handleBurn(event: BurnEvent): void {
 
   trade.save();
 
-  log.info("Created DEXTrade {} for liquidity removal", [tradeId]);
+  log.info("Created DEXTrade {} for {}", [tradeId.toHexString(), tradeType]);
 }
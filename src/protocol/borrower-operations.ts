@@ -0,0 +1,149 @@
+/**
+ * USDFC v0 - Borrower Operations Handler
+ * Trove creation, owner-driven trove updates and borrowing fees
+ */
+
+import { log } from "@graphprotocol/graph-ts"
+import {
+  TroveCreated as TroveCreatedEvent,
+  TroveUpdated as TroveUpdatedEvent,
+  DebtTokenBorrowingFeePaid as DebtTokenBorrowingFeePaidEvent
+} from "../../generated/BorrowerOperations_V0_Enhanced/BorrowerOperations"
+import { Trove, TroveOperation } from "../../generated/schema"
+import { ZERO_BI, BORROWER_OPERATIONS } from "../utils/constants"
+import {
+  logTransactionStart,
+  logTransactionComplete
+} from "../utils/helpers"
+import { ensureAccount } from "../core/universal-transaction"
+import { getOrCreateProtocolStats } from "../core/protocol-stats"
+import { getOrCreateDailyFeeStats } from "../core/fee-stats"
+import {
+  applyTroveUpdate,
+  createTrove,
+  updateProtocolStatsForTrove
+} from "./trove-manager"
+
+/**
+ * Trove Created handler - opens (or reopens) the borrower's trove
+ */
+export function handleTroveCreated(event: TroveCreatedEvent): void {
+  let borrower = event.params._borrower
+
+  logTransactionStart(
+    "TroveCreated",
+    event.transaction.hash,
+    borrower,
+    borrower,
+    ZERO_BI
+  )
+
+  ensureAccount(borrower)
+
+  let trove = Trove.load(borrower)
+  let isNewTrove = trove == null
+  if (trove == null) {
+    trove = createTrove(borrower, event.block.number, event.block.timestamp)
+  }
+  let previousStatus = isNewTrove ? "NONE" : trove.status
+
+  // A reopened trove starts a new lifecycle under the same owner address
+  trove.status = "ACTIVE"
+  trove.arrayIndex = event.params.arrayIndex
+  trove.openedAtBlock = event.block.number
+  trove.openedAtTimestamp = event.block.timestamp
+  trove.closedAtBlock = null
+  trove.closedAtTimestamp = null
+  trove.daysOpen = ZERO_BI
+  trove.lastUpdateBlock = event.block.number
+  trove.lastUpdateTimestamp = event.block.timestamp
+  trove.save()
+
+  // Debt and collateral follow in the TroveUpdated event of the same transaction
+  updateProtocolStatsForTrove(
+    trove as Trove,
+    previousStatus,
+    trove.debt,
+    trove.collateral,
+    trove.entireDebt,
+    trove.entireCollateral,
+    isNewTrove,
+    event.block.number,
+    event.block.timestamp
+  )
+
+  logTransactionComplete("TroveCreated", borrower.toHexString())
+}
+
+/**
+ * Trove Updated handler - open, close and adjust operations
+ */
+export function handleTroveUpdated(event: TroveUpdatedEvent): void {
+  let operationIndex = event.params.operation
+  let borrowerOperation: string | null = null
+  if (operationIndex >= 0 && operationIndex < BORROWER_OPERATIONS.length) {
+    borrowerOperation = BORROWER_OPERATIONS[operationIndex]
+  } else {
+    log.warning("Unknown BorrowerOperation {} for trove {}", [
+      operationIndex.toString(),
+      event.params._borrower.toHexString()
+    ])
+  }
+
+  applyTroveUpdate(
+    event,
+    event.params._borrower,
+    event.params._debt,
+    event.params._coll,
+    event.params.stake,
+    borrowerOperation,
+    null
+  )
+}
+
+/**
+ * Borrowing Fee handler - credits the fee to the trove, its operation and the protocol
+ */
+export function handleDebtTokenBorrowingFeePaid(event: DebtTokenBorrowingFeePaidEvent): void {
+  let borrower = event.params._borrower
+  let fee = event.params._debtTokenFee
+
+  logTransactionStart(
+    "DebtTokenBorrowingFeePaid",
+    event.transaction.hash,
+    borrower,
+    borrower,
+    fee
+  )
+
+  let trove = Trove.load(borrower)
+  if (trove == null) {
+    log.warning("Borrowing fee paid for unknown trove {}", [borrower.toHexString()])
+    return
+  }
+
+  trove.borrowingFeesPaid = trove.borrowingFeesPaid.plus(fee)
+  trove.save()
+
+  // The fee is emitted right after the TroveUpdated it belongs to
+  let lastOperation = trove.lastOperation
+  if (lastOperation !== null) {
+    let operation = TroveOperation.load(lastOperation)
+    if (operation != null && operation.transactionHash.equals(event.transaction.hash)) {
+      operation.borrowingFee = fee
+      operation.save()
+    }
+  }
+
+  let stats = getOrCreateProtocolStats()
+  stats.totalBorrowingFees = stats.totalBorrowingFees.plus(fee)
+  stats.lastUpdateBlock = event.block.number
+  stats.lastUpdateTimestamp = event.block.timestamp
+  stats.save()
+
+  let daily = getOrCreateDailyFeeStats(event.block.timestamp, stats.baseRate)
+  daily.borrowingFeesPaid = daily.borrowingFeesPaid.plus(fee)
+  daily.save()
+
+  logTransactionComplete("DebtTokenBorrowingFeePaid", borrower.toHexString())
+}
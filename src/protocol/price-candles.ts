@@ -0,0 +1,146 @@
+/**
+ * USDFC v0 - Price Candles
+ * FIL/USD candles at 1h, 4h and 1d with TWAP and realised volatility, linked into per-interval series
+ */
+
+import { BigInt, BigDecimal } from "@graphprotocol/graph-ts"
+import { OracleState, PriceCandle } from "../../generated/schema"
+import {
+  ZERO_BI,
+  ONE_BI,
+  ZERO_BD,
+  HUNDRED_BD,
+  CANDLE_INTERVALS,
+  CANDLE_INTERVAL_SECONDS
+} from "../utils/constants"
+
+/**
+ * Latest candle of an interval, from the series head on the oracle state
+ */
+function loadLatestCandle(oracle: OracleState, interval: i32): PriceCandle | null {
+  let candleId: string | null = null
+  if (interval == 0) {
+    candleId = oracle.latestHourCandle
+  } else if (interval == 1) {
+    candleId = oracle.latestFourHourCandle
+  } else {
+    candleId = oracle.latestDayCandle
+  }
+  if (candleId === null) return null
+  return PriceCandle.load(candleId)
+}
+
+/**
+ * Move an interval's series head to a new candle
+ */
+function setLatestCandle(oracle: OracleState, interval: i32, candle: PriceCandle): void {
+  if (interval == 0) {
+    oracle.latestHourCandle = candle.id
+  } else if (interval == 1) {
+    oracle.latestFourHourCandle = candle.id
+  } else {
+    oracle.latestDayCandle = candle.id
+  }
+}
+
+/**
+ * Hold a candle's close price up to a timestamp, refreshing its TWAP
+ */
+function accrueCandle(candle: PriceCandle, until: BigInt): void {
+  if (until.gt(candle.lastUpdateTimestamp)) {
+    let held = until.minus(candle.lastUpdateTimestamp).toBigDecimal()
+    candle.priceSeconds = candle.priceSeconds.plus(candle.close.times(held))
+  }
+
+  // Time before the first update only counts when the previous close carried into the period
+  let previous = candle.previous
+  let start = previous !== null ? candle.periodStart : candle.firstUpdateTimestamp
+  let elapsed = until.minus(start)
+  candle.twap = elapsed.gt(ZERO_BI) ? candle.priceSeconds.div(elapsed.toBigDecimal()) : candle.close
+}
+
+/**
+ * Open a candle for the period containing a timestamp, carrying the previous close into it
+ * A carried-forward candle opens at the previous close, matching the price its TWAP starts from
+ */
+function openCandle(
+  interval: i32,
+  periodStart: BigInt,
+  price: BigDecimal,
+  timestamp: BigInt,
+  previous: PriceCandle | null
+): PriceCandle {
+  let candle = new PriceCandle(CANDLE_INTERVALS[interval] + "-" + periodStart.toString())
+  candle.interval = CANDLE_INTERVALS[interval]
+  candle.periodStart = periodStart
+  candle.periodEnd = periodStart.plus(BigInt.fromI32(CANDLE_INTERVAL_SECONDS[interval]))
+  candle.open = price
+  candle.high = price
+  candle.low = price
+  candle.close = price
+  candle.updateCount = ZERO_BI
+  candle.priceSeconds = ZERO_BD
+  candle.twap = price
+  candle.returnSquaredSum = ZERO_BD
+  candle.realisedVolatility = ZERO_BD
+  candle.firstUpdateTimestamp = timestamp
+  candle.lastUpdateTimestamp = timestamp
+
+  if (previous != null) {
+    candle.previous = previous.id
+    // The oracle held the previous close from the start of this period until the first update
+    candle.open = previous.close
+    candle.high = previous.close
+    candle.low = previous.close
+    candle.close = previous.close
+    candle.lastUpdateTimestamp = periodStart
+  }
+  return candle
+}
+
+/**
+ * Fold a new price into a candle: OHLC, update count, TWAP and realised volatility
+ */
+function applyPrice(candle: PriceCandle, price: BigDecimal, timestamp: BigInt): void {
+  accrueCandle(candle, timestamp)
+
+  let previousPrice = candle.close
+  if (previousPrice.gt(ZERO_BD)) {
+    let returnPercent = price.minus(previousPrice).div(previousPrice).times(HUNDRED_BD)
+    candle.returnSquaredSum = candle.returnSquaredSum.plus(returnPercent.times(returnPercent))
+    let volatility = Math.sqrt(parseFloat(candle.returnSquaredSum.toString()))
+    candle.realisedVolatility = BigDecimal.fromString(volatility.toString())
+  }
+
+  if (price.gt(candle.high)) candle.high = price
+  if (price.lt(candle.low)) candle.low = price
+  candle.close = price
+  candle.updateCount = candle.updateCount.plus(ONE_BI)
+  candle.lastUpdateTimestamp = timestamp
+}
+
+/**
+ * Update the 1h, 4h and 1d candles with a new oracle price
+ * Closes out the previous candle of an interval when the price lands in a new period
+ */
+export function updatePriceCandles(oracle: OracleState, price: BigDecimal, timestamp: BigInt): void {
+  for (let interval = 0; interval < CANDLE_INTERVALS.length; interval++) {
+    let length = BigInt.fromI32(CANDLE_INTERVAL_SECONDS[interval])
+    let periodStart = timestamp.div(length).times(length)
+
+    let candle = loadLatestCandle(oracle, interval)
+    if (candle == null || !candle.periodStart.equals(periodStart)) {
+      let previous = candle
+      if (previous != null) {
+        // The previous close held until the end of its period
+        accrueCandle(previous, previous.periodEnd)
+        previous.save()
+      }
+      candle = openCandle(interval, periodStart, price, timestamp, previous)
+      setLatestCandle(oracle, interval, candle)
+    }
+
+    applyPrice(candle, price, timestamp)
+    candle.save()
+  }
+}
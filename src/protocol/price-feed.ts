@@ -5,32 +5,46 @@
 
 import { BigInt, BigDecimal, log } from "@graphprotocol/graph-ts"
 import {
-  LastGoodPriceUpdated as LastGoodPriceUpdatedEvent
+  LastGoodPriceUpdated as LastGoodPriceUpdatedEvent,
+  PriceFeedStatusChanged as PriceFeedStatusChangedEvent
 } from "../../generated/PriceFeed_V0_Enhanced/PriceFeed"
 import {
-  Transaction,
   PriceUpdate,
+  OracleStatusChange,
   MarketCondition,
+  OracleState,
   ProtocolStats
 } from "../../generated/schema"
 import {
-  createUniversalTransaction,
   TX_SOURCE_CONTRACT_EVENT,
-  TX_CATEGORY_STABILITY_OPERATION,
+  TX_CATEGORY_PRICE_UPDATE,
   ECOSYSTEM_PROTOCOL_NATIVE,
   ZERO_BI,
   ZERO_BD,
-  GLOBAL_STATS_ID
+  ONE_BD,
+  DECIMAL_PRECISION_BD,
+  ORACLE_STATUS_WORKING
 } from "../utils/constants"
+import { createUniversalTransaction } from "../core/universal-transaction"
 import {
   logTransactionStart,
   logTransactionComplete,
-  calculatePercentage
+  absBD
 } from "../utils/helpers"
+import {
+  getOrCreateOracleState,
+  recordLastGoodPrice,
+  recordOracleStatus,
+  accrueOracleStatusTime,
+  oracleStatusName
+} from "../core/oracle-state"
+import { getOrCreateProtocolStats, updateTotalCollateralRatio } from "../core/protocol-stats"
+import { recordOracleFilPrice } from "../core/price-deviation"
+import { repriceRiskBands } from "./trove-risk"
+import { updatePriceCandles } from "./price-candles"
 
-// Previous price for volatility calculation
-let previousPrice: BigDecimal = ZERO_BD
-let previousTimestamp: BigInt = ZERO_BI
+// EWMA decay for the running variance of price returns (RiskMetrics lambda)
+const VOLATILITY_DECAY = BigDecimal.fromString("0.94")
 
 /**
  * Enhanced Price Update handler with market impact analysis
@@ -41,19 +55,19 @@ export function handlePriceUpdate(event: LastGoodPriceUpdatedEvent): void {
     event.transaction.hash,
     event.address,
     event.address,
-    event.params._price
+    event.params._lastGoodPrice
   )
   
   // Create universal transaction (price updates are system-level)
-  let universalTx = createUniversalTransaction(
+  createUniversalTransaction(
     event.transaction.hash,
     event.block.number,
     event.block.timestamp,
     event.address,
     event.address,
-    event.params._price,
+    event.params._lastGoodPrice,
     TX_SOURCE_CONTRACT_EVENT,
-    "PRICE_UPDATE",
+    TX_CATEGORY_PRICE_UPDATE,
     ECOSYSTEM_PROTOCOL_NATIVE,
     event.logIndex,
     null, // Price updates typically don't have gas costs
@@ -67,60 +81,120 @@ export function handlePriceUpdate(event: LastGoodPriceUpdatedEvent): void {
   let priceUpdate = new PriceUpdate(priceUpdateId)
   
   priceUpdate.timestamp = event.block.timestamp
-  priceUpdate.filPrice = event.params._price
+  priceUpdate.filPrice = event.params._lastGoodPrice
   priceUpdate.blockNumber = event.block.number
   priceUpdate.transactionHash = event.transaction.hash
   
-  // Calculate price change analytics
-  let currentPrice = event.params._price.toBigDecimal()
-  updateMarketAnalytics(priceUpdate, currentPrice, event.block.timestamp)
+  // Calculate price change analytics against the persisted oracle state
+  let oracle = getOrCreateOracleState()
+  priceUpdate.oracleStatus = oracle.status
+  let currentPrice = event.params._lastGoodPrice.toBigDecimal().div(DECIMAL_PRECISION_BD)
+  updateMarketAnalytics(priceUpdate, oracle, event.params._lastGoodPrice, event.block.timestamp)
   
   priceUpdate.save()
   
-  // Update market conditions
-  updateMarketConditions(currentPrice, event.block.timestamp)
+  // Persist the last good price so troves can be priced from it
+  recordLastGoodPrice(oracle, event.params._lastGoodPrice, event.block.number, event.block.timestamp)
+  
+  // Bring the time in the current status up to this update
+  accrueOracleStatusTime(oracle, event.block.timestamp)
+  
+  // Roll the 1h, 4h and 1d candles forward
+  updatePriceCandles(oracle, currentPrice, event.block.timestamp)
+  oracle.save()
   
-  // Update global price in protocol stats
-  updateProtocolStatsWithPrice(event.params._price, event.block.timestamp)
+  // Compare against the DEX-implied price
+  recordOracleFilPrice(currentPrice, event.transaction.hash, event.logIndex, event.block.number, event.block.timestamp)
   
-  // Store current price for next calculation
-  previousPrice = currentPrice
-  previousTimestamp = event.block.timestamp
+  // Move the risk buckets to the new price
+  repriceRiskBands(event.params._lastGoodPrice, event.block.timestamp)
+  
+  // Update daily market conditions (USD prices)
+  updateMarketConditions(currentPrice, event.block.timestamp)
+  
+  // Recompute the TCR at the new price
+  updateProtocolStatsWithPrice(event.params._lastGoodPrice, event.block.number, event.block.timestamp)
   
   logTransactionComplete("PriceUpdate", priceUpdateId.toHexString())
 }
 
+/**
+ * PriceFeed status handler - records each switch between Chainlink, the Tellor fallback and frozen states
+ */
+export function handlePriceFeedStatusChanged(event: PriceFeedStatusChangedEvent): void {
+  let oracle = getOrCreateOracleState()
+  let previousStatus = oracle.status
+  let newStatus = oracleStatusName(event.params.newStatus)
+  let duration = recordOracleStatus(oracle, newStatus, event.block.timestamp)
+  oracle.save()
+  
+  let change = new OracleStatusChange(event.transaction.hash.concatI32(event.logIndex.toI32()))
+  change.timestamp = event.block.timestamp
+  change.oracle = oracle.id
+  change.previousStatus = previousStatus
+  change.newStatus = newStatus
+  change.previousStatusDuration = duration
+  change.lastGoodPrice = oracle.lastGoodPrice
+  change.blockNumber = event.block.number
+  change.transactionHash = event.transaction.hash
+  change.save()
+  
+  if (newStatus != ORACLE_STATUS_WORKING) {
+    log.warning("PriceFeed status changed from {} to {}", [previousStatus, newStatus])
+  }
+}
+
 /**
  * Update market analytics for price update
+ * Reads the previous price from the oracle state and folds the new return into its running volatility
  */
 function updateMarketAnalytics(
   priceUpdate: PriceUpdate,
-  currentPrice: BigDecimal,
+  oracle: OracleState,
+  price: BigInt,
   timestamp: BigInt
 ): void {
+  let previousPrice = oracle.lastGoodPrice
+  let previousTimestamp = oracle.lastUpdateTimestamp
+  
+  priceUpdate.previousPrice = previousPrice
+  priceUpdate.priceChange = ZERO_BI
+  priceUpdate.priceChangePercent = ZERO_BD
+  priceUpdate.timeSinceLastUpdate = ZERO_BI
   
   // Calculate price change if we have previous data
-  if (previousPrice.gt(ZERO_BD)) {
-    let priceChange = currentPrice.minus(previousPrice)
-    let priceChangePercent = priceChange.div(previousPrice).times(BigDecimal.fromString("100"))
+  if (previousPrice.gt(ZERO_BI)) {
+    let priceChange = price.minus(previousPrice)
+    let priceChangePercent = priceChange.toBigDecimal()
+      .div(previousPrice.toBigDecimal())
+      .times(BigDecimal.fromString("100"))
+    
+    priceUpdate.priceChange = priceChange
+    priceUpdate.priceChangePercent = priceChangePercent
     
-    // Store price change metrics (could be added to schema)
-    // priceUpdate.priceChange = priceChange
-    // priceUpdate.priceChangePercent = priceChangePercent
+    // Running variance of % returns (EWMA), volatility is its square root
+    oracle.returnVariance = oracle.returnVariance
+      .times(VOLATILITY_DECAY)
+      .plus(priceChangePercent.times(priceChangePercent).times(ONE_BD.minus(VOLATILITY_DECAY)))
+    let volatility = Math.sqrt(parseFloat(oracle.returnVariance.toString()))
+    oracle.volatility = BigDecimal.fromString(volatility.toString())
     
     // Log significant price movements
-    if (priceChangePercent.abs().gt(BigDecimal.fromString("5"))) {
+    if (absBD(priceChangePercent).gt(BigDecimal.fromString("5"))) {
       log.info("Significant price movement: {}% change from {} to {}", [
         priceChangePercent.toString(),
         previousPrice.toString(),
-        currentPrice.toString()
+        price.toString()
       ])
     }
   }
   
+  priceUpdate.volatility = oracle.volatility
+  
   // Calculate time since last update
   if (previousTimestamp.gt(ZERO_BI)) {
     let timeDiff = timestamp.minus(previousTimestamp)
+    priceUpdate.timeSinceLastUpdate = timeDiff
     
     // Log if price update frequency is unusual
     if (timeDiff.gt(BigInt.fromI32(3600))) { // More than 1 hour
@@ -188,66 +262,45 @@ function updateMarketConditions(currentPrice: BigDecimal, timestamp: BigInt): vo
 /**
  * Update protocol stats with current price
  */
-function updateProtocolStatsWithPrice(price: BigInt, timestamp: BigInt): void {
-  let stats = ProtocolStats.load(GLOBAL_STATS_ID)
-  if (stats == null) return
-  
-  // Store current FIL price (could add to schema)
-  // stats.currentFilPrice = price
-  stats.lastUpdateTimestamp = timestamp
+function updateProtocolStatsWithPrice(price: BigInt, blockNumber: BigInt, timestamp: BigInt): void {
+  let stats = getOrCreateProtocolStats()
   
-  // Calculate protocol health metrics based on price
-  // This could include analysis of liquidation risk based on current price
-  updateProtocolHealthMetrics(stats, price)
+  // The TCR (and with it Recovery Mode) moves with every price change
+  updateTotalCollateralRatio(stats, price, blockNumber, timestamp)
+  updateProtocolHealthMetrics(stats)
   
+  stats.lastUpdateBlock = blockNumber
+  stats.lastUpdateTimestamp = timestamp
   stats.save()
 }
 
 /**
- * Update protocol health metrics based on current price
+ * Update protocol health metrics from the total collateral ratio
  */
-function updateProtocolHealthMetrics(stats: ProtocolStats, price: BigInt): void {
-  // Calculate system-wide collateralization based on current price
-  if (stats.totalCollateral.gt(ZERO_BI) && stats.totalDebt.gt(ZERO_BI)) {
-    let totalCollateralValue = stats.totalCollateral.toBigDecimal().times(price.toBigDecimal())
-    let systemCollateralRatio = totalCollateralValue.div(stats.totalDebt.toBigDecimal())
-    
-    // Calculate liquidation risk based on system CR
-    let protocolHealth: BigDecimal
-    if (systemCollateralRatio.gt(BigDecimal.fromString("2.0"))) {
-      protocolHealth = BigDecimal.fromString("100") // Excellent health
-    } else if (systemCollateralRatio.gt(BigDecimal.fromString("1.5"))) {
-      protocolHealth = BigDecimal.fromString("80") // Good health
-    } else if (systemCollateralRatio.gt(BigDecimal.fromString("1.2"))) {
-      protocolHealth = BigDecimal.fromString("60") // Fair health
-    } else if (systemCollateralRatio.gt(BigDecimal.fromString("1.1"))) {
-      protocolHealth = BigDecimal.fromString("30") // Poor health
-    } else {
-      protocolHealth = BigDecimal.fromString("10") // Critical health
-    }
-    
-    stats.protocolHealth = protocolHealth
-    
-    // Calculate liquidation risk
-    let liquidationRisk = BigDecimal.fromString("110").div(systemCollateralRatio.times(BigDecimal.fromString("100")))
-    if (liquidationRisk.gt(BigDecimal.fromString("100"))) {
-      liquidationRisk = BigDecimal.fromString("100")
-    }
-    stats.liquidationRisk = liquidationRisk
+function updateProtocolHealthMetrics(stats: ProtocolStats): void {
+  if (stats.systemDebt.equals(ZERO_BI)) return
+  let tcr = stats.totalCollateralRatio
+  
+  let protocolHealth: BigDecimal
+  if (tcr.gt(BigDecimal.fromString("200"))) {
+    protocolHealth = BigDecimal.fromString("100") // Excellent health
+  } else if (tcr.gt(BigDecimal.fromString("150"))) {
+    protocolHealth = BigDecimal.fromString("80") // Good health
+  } else if (tcr.gt(BigDecimal.fromString("120"))) {
+    protocolHealth = BigDecimal.fromString("60") // Fair health (Recovery Mode)
+  } else if (tcr.gt(BigDecimal.fromString("110"))) {
+    protocolHealth = BigDecimal.fromString("30") // Poor health
+  } else {
+    protocolHealth = BigDecimal.fromString("10") // Critical health
   }
+  stats.protocolHealth = protocolHealth
+  
+  // Liquidation risk: 110% MCR relative to the TCR, as a percentage
+  let liquidationRisk = tcr.gt(ZERO_BD)
+    ? BigDecimal.fromString("110").div(tcr).times(BigDecimal.fromString("100"))
+    : BigDecimal.fromString("100")
+  if (liquidationRisk.gt(BigDecimal.fromString("100"))) {
+    liquidationRisk = BigDecimal.fromString("100")
+  }
+  stats.liquidationRisk = liquidationRisk
 }
-
-// Supporting type that might be added to schema
-// type MarketCondition @entity {
-//   id: ID!
-//   date: String!
-//   timestamp: BigInt!
-//   openPrice: BigDecimal!
-//   highPrice: BigDecimal!
-//   lowPrice: BigDecimal!
-//   closePrice: BigDecimal!
-//   priceUpdatesCount: BigInt!
-//   volatilityScore: BigDecimal!
-//   trendDirection: String!
-//   lastUpdateTimestamp: BigInt!
-// }
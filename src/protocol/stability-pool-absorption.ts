@@ -0,0 +1,155 @@
+/**
+ * USDFC v0 - Stability Pool Absorption
+ * Liquidation offsets against the pool: USDFC burned, FIL received and the discount captured
+ */
+
+import { BigInt, Bytes } from "@graphprotocol/graph-ts"
+import {
+  StabilityPoolState,
+  StabilityPoolAbsorption,
+  Liquidation
+} from "../../generated/schema"
+import {
+  ZERO_BI,
+  ONE_BI,
+  ZERO_BD,
+  HUNDRED_BD,
+  DECIMAL_PRECISION_BD
+} from "../utils/constants"
+import { getLatestFilPrice, filToUSD } from "../core/oracle-state"
+import { getOrCreateStabilityPoolState } from "./stability-pool-rewards"
+import {
+  getOrCreateStabilityPoolDailySnapshot,
+  updatePoolYield,
+  updateDailyPoolYield
+} from "./stability-pool-yield"
+
+/**
+ * Open an absorption when an offset updates P
+ * StabilityPool then emits the USDFC balance update followed by the FIL balance update
+ */
+export function beginAbsorption(
+  state: StabilityPoolState,
+  txHash: Bytes,
+  logIndex: BigInt,
+  blockNumber: BigInt,
+  timestamp: BigInt
+): void {
+  let absorption = new StabilityPoolAbsorption(txHash.concatI32(logIndex.toI32()))
+  absorption.timestamp = timestamp
+  absorption.pool = state.id
+  absorption.debtTokenBurned = ZERO_BI
+  absorption.filAdded = ZERO_BI
+  absorption.debtRedistributed = ZERO_BI
+  absorption.filPrice = ZERO_BI
+  absorption.filValueUSD = ZERO_BD
+  absorption.debtTokenBurnedUSD = ZERO_BD
+  absorption.gainUSD = ZERO_BD
+  absorption.discountPercent = ZERO_BD
+  absorption.poolDepositsBefore = state.totalDebtTokenDeposits
+  absorption.poolDepositsAfter = state.totalDebtTokenDeposits
+  absorption.poolFILBefore = state.totalFIL
+  absorption.poolFILAfter = state.totalFIL
+  absorption.blockNumber = blockNumber
+  absorption.transactionHash = txHash
+  absorption.save()
+
+  state.pendingAbsorption = absorption.id
+}
+
+/**
+ * Load the absorption still waiting for balance updates in this transaction
+ */
+function loadPendingAbsorption(state: StabilityPoolState, txHash: Bytes): StabilityPoolAbsorption | null {
+  let pendingId = state.pendingAbsorption
+  if (pendingId === null) return null
+  let absorption = StabilityPoolAbsorption.load(pendingId)
+  if (absorption == null || !absorption.transactionHash.equals(txHash)) return null
+  return absorption
+}
+
+/**
+ * Record the pool's new USDFC balance, attributing the drop to a pending offset
+ */
+export function recordDebtTokenBalance(state: StabilityPoolState, newBalance: BigInt, txHash: Bytes): void {
+  let absorption = loadPendingAbsorption(state, txHash)
+  if (absorption != null && absorption.debtTokenBurned.equals(ZERO_BI) && newBalance.lt(state.totalDebtTokenDeposits)) {
+    absorption.debtTokenBurned = state.totalDebtTokenDeposits.minus(newBalance)
+    absorption.poolDepositsAfter = newBalance
+    absorption.save()
+  }
+  state.totalDebtTokenDeposits = newBalance
+}
+
+/**
+ * Record the pool's new FIL balance, completing a pending offset with the FIL it received
+ */
+export function recordFILBalance(
+  state: StabilityPoolState,
+  newBalance: BigInt,
+  txHash: Bytes,
+  timestamp: BigInt
+): void {
+  let absorption = loadPendingAbsorption(state, txHash)
+  state.totalFIL = newBalance
+  if (absorption == null || newBalance.le(absorption.poolFILBefore)) return
+
+  absorption.filAdded = newBalance.minus(absorption.poolFILBefore)
+  absorption.poolFILAfter = newBalance
+  valueAbsorption(absorption, getLatestFilPrice())
+  absorption.save()
+
+  state.absorptionCount = state.absorptionCount.plus(ONE_BI)
+  state.totalDebtTokenAbsorbed = state.totalDebtTokenAbsorbed.plus(absorption.debtTokenBurned)
+  state.totalFILFromLiquidations = state.totalFILFromLiquidations.plus(absorption.filAdded)
+  state.totalLiquidationGainUSD = state.totalLiquidationGainUSD.plus(absorption.gainUSD)
+  state.latestAbsorption = absorption.id
+  state.pendingAbsorption = null
+  updatePoolYield(state)
+
+  let daily = getOrCreateStabilityPoolDailySnapshot(state, timestamp)
+  daily.absorptionCount = daily.absorptionCount.plus(ONE_BI)
+  daily.filGainUSD = daily.filGainUSD.plus(absorption.filValueUSD)
+  daily.debtTokenLossUSD = daily.debtTokenLossUSD.plus(absorption.debtTokenBurnedUSD)
+  daily.liquidationGainUSD = daily.liquidationGainUSD.plus(absorption.gainUSD)
+  updateDailyPoolYield(daily)
+  daily.save()
+}
+
+/**
+ * Value an absorption at the oracle price, treating USDFC as $1
+ */
+function valueAbsorption(absorption: StabilityPoolAbsorption, price: BigInt): void {
+  absorption.filPrice = price
+  absorption.debtTokenBurnedUSD = absorption.debtTokenBurned.toBigDecimal().div(DECIMAL_PRECISION_BD)
+
+  // Without a price the discount is unknown
+  if (price.equals(ZERO_BI)) return
+
+  absorption.filValueUSD = filToUSD(absorption.filAdded, price)
+  absorption.gainUSD = absorption.filValueUSD.minus(absorption.debtTokenBurnedUSD)
+  if (absorption.debtTokenBurnedUSD.gt(ZERO_BD)) {
+    absorption.discountPercent = absorption.gainUSD.div(absorption.debtTokenBurnedUSD).times(HUNDRED_BD)
+  }
+}
+
+/**
+ * Link the pool's latest absorption to the Liquidation event of the same transaction
+ */
+export function linkStabilityPoolAbsorption(liquidation: Liquidation): void {
+  let state = getOrCreateStabilityPoolState()
+  let absorptionId = state.latestAbsorption
+  if (absorptionId === null) return
+
+  let absorption = StabilityPoolAbsorption.load(absorptionId)
+  if (absorption == null || !absorption.transactionHash.equals(liquidation.transactionHash)) return
+  let linkedLiquidation = absorption.liquidation
+  if (linkedLiquidation !== null) return
+
+  absorption.liquidation = liquidation.id
+  // Whatever the pool could not offset was redistributed to active troves
+  if (liquidation.debtLiquidated.gt(absorption.debtTokenBurned)) {
+    absorption.debtRedistributed = liquidation.debtLiquidated.minus(absorption.debtTokenBurned)
+  }
+  absorption.save()
+}
@@ -0,0 +1,85 @@
+/**
+ * USDFC v0 - Stability Pool Front Ends
+ * Front end registry, deposit tagging and front end stakes
+ */
+
+import { BigInt, Bytes } from "@graphprotocol/graph-ts"
+import {
+  FrontEnd,
+  StabilityDeposit,
+  StabilityPoolState
+} from "../../generated/schema"
+import {
+  ZERO_BI,
+  HUNDRED_BD,
+  DECIMAL_PRECISION,
+  DECIMAL_PRECISION_BD
+} from "../utils/constants"
+import { ensureAccount } from "../core/universal-transaction"
+
+/**
+ * Load a front end, creating it and counting it in the pool on first use
+ * Unregistered front ends pass all issuance to depositors until FrontEndRegistered sets their rate
+ */
+export function getOrCreateFrontEnd(
+  address: Bytes,
+  state: StabilityPoolState,
+  blockNumber: BigInt,
+  timestamp: BigInt
+): FrontEnd {
+  let frontEnd = FrontEnd.load(address)
+  if (frontEnd == null) {
+    frontEnd = new FrontEnd(address)
+    frontEnd.account = ensureAccount(address).id
+    frontEnd.kickbackRate = DECIMAL_PRECISION
+    frontEnd.kickbackRatePercent = HUNDRED_BD
+    frontEnd.registered = false
+    frontEnd.stake = ZERO_BI
+    frontEnd.initialStake = ZERO_BI
+    frontEnd.snapshotP = ZERO_BI
+    frontEnd.snapshotG = ZERO_BI
+    frontEnd.snapshotEpoch = ZERO_BI
+    frontEnd.snapshotScale = ZERO_BI
+    frontEnd.stakeChangeCount = ZERO_BI
+    frontEnd.pendingProtocolTokenGain = ZERO_BI
+    frontEnd.totalProtocolTokenEarned = ZERO_BI
+    frontEnd.taggedDepositorCount = 0
+    state.frontEndCount = state.frontEndCount + 1
+  }
+  frontEnd.lastUpdateBlock = blockNumber
+  frontEnd.lastUpdateTimestamp = timestamp
+  return frontEnd
+}
+
+/**
+ * Record a front end's registration and kickback rate
+ */
+export function registerFrontEnd(frontEnd: FrontEnd, kickbackRate: BigInt, blockNumber: BigInt, timestamp: BigInt): void {
+  frontEnd.kickbackRate = kickbackRate
+  frontEnd.kickbackRatePercent = kickbackRate.toBigDecimal().div(DECIMAL_PRECISION_BD).times(HUNDRED_BD)
+  frontEnd.registered = true
+  frontEnd.registeredAtBlock = blockNumber
+  frontEnd.registeredAtTimestamp = timestamp
+}
+
+/**
+ * Move a deposit's tag to a front end (or to none), keeping tagged counts in step
+ */
+export function tagDeposit(deposit: StabilityDeposit, frontEnd: FrontEnd | null): void {
+  let previousId = deposit.frontEnd
+  if (previousId !== null) {
+    if (frontEnd !== null && previousId.equals(frontEnd.id)) return
+    let previous = FrontEnd.load(previousId)
+    if (previous != null) {
+      previous.taggedDepositorCount = previous.taggedDepositorCount - 1
+      previous.save()
+    }
+  }
+
+  if (frontEnd === null) {
+    deposit.frontEnd = null
+    return
+  }
+  deposit.frontEnd = frontEnd.id
+  frontEnd.taggedDepositorCount = frontEnd.taggedDepositorCount + 1
+}
@@ -0,0 +1,289 @@
+/**
+ * USDFC v0 - Stability Pool Rewards
+ * Running product/sums, depositor snapshots and the compounding settled at each snapshot
+ */
+
+import { BigInt, BigDecimal, Bytes } from "@graphprotocol/graph-ts"
+import {
+  StabilityDeposit,
+  StabilityPoolState,
+  StabilityPoolEpochScale,
+  FrontEnd
+} from "../../generated/schema"
+import {
+  ZERO_BI,
+  ONE_BI,
+  ZERO_BD,
+  DECIMAL_PRECISION,
+  DECIMAL_PRECISION_BD,
+  SP_SCALE_FACTOR,
+  STABILITY_POOL_STATE_ID
+} from "../utils/constants"
+import {
+  accrueDepositTime,
+  recordDepositEarnings,
+  updateDepositYield
+} from "./stability-pool-yield"
+
+/**
+ * Load the Stability Pool state, creating it on first use (P starts at 1)
+ */
+export function getOrCreateStabilityPoolState(): StabilityPoolState {
+  let state = StabilityPoolState.load(STABILITY_POOL_STATE_ID)
+  if (state == null) {
+    state = new StabilityPoolState(STABILITY_POOL_STATE_ID)
+    state.P = DECIMAL_PRECISION
+    state.currentEpoch = ZERO_BI
+    state.currentScale = ZERO_BI
+    state.depositorCount = 0
+    state.frontEndCount = 0
+    state.totalDebtTokenDeposits = ZERO_BI
+    state.totalFIL = ZERO_BI
+    state.absorptionCount = ZERO_BI
+    state.totalDebtTokenAbsorbed = ZERO_BI
+    state.totalFILFromLiquidations = ZERO_BI
+    state.totalLiquidationGainUSD = ZERO_BD
+    state.totalProtocolTokenPaid = ZERO_BI
+    state.depositSeconds = ZERO_BD
+    state.lastAccrualTimestamp = ZERO_BI
+    state.realisedAPR = ZERO_BD
+    state.lastUpdateBlock = ZERO_BI
+    state.lastUpdateTimestamp = ZERO_BI
+  }
+  return state
+}
+
+/**
+ * Entity ID of an epoch and scale
+ */
+function epochScaleId(epoch: BigInt, scale: BigInt): string {
+  return epoch.toString() + "-" + scale.toString()
+}
+
+/**
+ * Load the sums of an epoch and scale, creating them on first use
+ */
+export function getOrCreateEpochScale(epoch: BigInt, scale: BigInt, timestamp: BigInt): StabilityPoolEpochScale {
+  let id = epochScaleId(epoch, scale)
+  let epochScale = StabilityPoolEpochScale.load(id)
+  if (epochScale == null) {
+    epochScale = new StabilityPoolEpochScale(id)
+    epochScale.epoch = epoch
+    epochScale.scale = scale
+    epochScale.P = DECIMAL_PRECISION
+    epochScale.S = ZERO_BI
+    epochScale.G = ZERO_BI
+    epochScale.SUSD = ZERO_BI
+    epochScale.PSeconds = ZERO_BI
+    epochScale.lastAccrualTimestamp = timestamp
+    epochScale.lastUpdateBlock = ZERO_BI
+    epochScale.lastUpdateTimestamp = ZERO_BI
+  }
+  return epochScale
+}
+
+/**
+ * Accrue the running product of the current epoch and scale up to a timestamp
+ * Call before P, the epoch or the scale changes
+ */
+export function accrueCurrentEpochScale(state: StabilityPoolState, timestamp: BigInt): StabilityPoolEpochScale {
+  let epochScale = getOrCreateEpochScale(state.currentEpoch, state.currentScale, timestamp)
+  if (timestamp.gt(epochScale.lastAccrualTimestamp)) {
+    let elapsed = timestamp.minus(epochScale.lastAccrualTimestamp)
+    epochScale.PSeconds = epochScale.PSeconds.plus(epochScale.P.times(elapsed))
+    epochScale.lastAccrualTimestamp = timestamp
+  }
+  epochScale.save()
+  return epochScale
+}
+
+/**
+ * Grow S for a liquidation and value the FIL it pays at the current price
+ */
+export function addFILGainSum(epochScale: StabilityPoolEpochScale, S: BigInt, price: BigInt): void {
+  let growth = S.minus(epochScale.S)
+  if (growth.gt(ZERO_BI)) {
+    epochScale.SUSD = epochScale.SUSD.plus(growth.times(price).div(DECIMAL_PRECISION))
+  }
+  epochScale.S = S
+}
+
+/**
+ * Create an empty stability deposit for a depositor
+ */
+export function createStabilityDeposit(depositor: Bytes, timestamp: BigInt): StabilityDeposit {
+  let deposit = new StabilityDeposit(depositor)
+  deposit.depositor = depositor
+  deposit.initialDeposit = ZERO_BI
+  deposit.snapshotP = ZERO_BI
+  deposit.snapshotS = ZERO_BI
+  deposit.snapshotG = ZERO_BI
+  deposit.snapshotEpoch = ZERO_BI
+  deposit.snapshotScale = ZERO_BI
+  deposit.snapshotSUSD = ZERO_BI
+  deposit.snapshotPSeconds = ZERO_BI
+  deposit.totalDeposited = ZERO_BI
+  deposit.totalWithdrawn = ZERO_BI
+  deposit.totalDebtTokenLoss = ZERO_BI
+  deposit.totalCollateralGained = ZERO_BI
+  deposit.totalProtocolTokenGained = ZERO_BI
+  deposit.depositSeconds = ZERO_BD
+  deposit.lastAccrualTimestamp = timestamp
+  deposit.filGainEarnedUSD = ZERO_BD
+  deposit.debtTokenLossUSD = ZERO_BD
+  deposit.realisedYieldUSD = ZERO_BD
+  deposit.protocolTokenRewardRate = ZERO_BD
+  deposit.averageDeposit = ZERO_BD
+  deposit.yieldRate = ZERO_BD
+  deposit.performanceScore = BigDecimal.fromString("100")
+  deposit.riskScore = BigDecimal.fromString("10") // Low risk for stability deposits
+  deposit.firstDepositAt = timestamp
+  deposit.lastActivityAt = timestamp
+  deposit.daysActive = ZERO_BI
+  return deposit
+}
+
+/**
+ * Compounded value of a deposit or front end stake since its snapshot of P, as StabilityPool does
+ */
+function compoundedValue(
+  initial: BigInt,
+  snapshotP: BigInt,
+  snapshotEpoch: BigInt,
+  snapshotScale: BigInt,
+  state: StabilityPoolState
+): BigInt {
+  // A stake from an earlier epoch was fully absorbed, and one more than a scale behind is below 1e-9 of itself
+  if (!snapshotEpoch.equals(state.currentEpoch)) return ZERO_BI
+
+  let scaleDiff = state.currentScale.minus(snapshotScale)
+  let compounded = ZERO_BI
+  if (scaleDiff.equals(ZERO_BI)) {
+    compounded = initial.times(state.P).div(snapshotP)
+  } else if (scaleDiff.equals(ONE_BI)) {
+    compounded = initial.times(state.P).div(snapshotP).div(SP_SCALE_FACTOR)
+  }
+
+  // Dust left by rounding is treated as zero
+  return compounded.lt(initial.div(SP_SCALE_FACTOR)) ? ZERO_BI : compounded
+}
+
+/**
+ * Growth of S, G, SUSD and PSeconds since a snapshot, over the snapshot's scale and the one after it
+ */
+function sumsSinceSnapshot(
+  snapshotEpoch: BigInt,
+  snapshotScale: BigInt,
+  snapshotS: BigInt,
+  snapshotG: BigInt,
+  snapshotSUSD: BigInt,
+  snapshotPSeconds: BigInt
+): BigInt[] {
+  let snapshotSums = StabilityPoolEpochScale.load(epochScaleId(snapshotEpoch, snapshotScale))
+  let nextSums = StabilityPoolEpochScale.load(epochScaleId(snapshotEpoch, snapshotScale.plus(ONE_BI)))
+
+  let sumS = ZERO_BI
+  let sumG = ZERO_BI
+  let sumSUSD = ZERO_BI
+  let sumPSeconds = ZERO_BI
+  if (snapshotSums != null) {
+    sumS = snapshotSums.S.minus(snapshotS)
+    sumG = snapshotSums.G.minus(snapshotG)
+    sumSUSD = snapshotSums.SUSD.minus(snapshotSUSD)
+    sumPSeconds = snapshotSums.PSeconds.minus(snapshotPSeconds)
+  }
+  if (nextSums != null) {
+    sumS = sumS.plus(nextSums.S.div(SP_SCALE_FACTOR))
+    sumG = sumG.plus(nextSums.G.div(SP_SCALE_FACTOR))
+    sumSUSD = sumSUSD.plus(nextSums.SUSD.div(SP_SCALE_FACTOR))
+    sumPSeconds = sumPSeconds.plus(nextSums.PSeconds.div(SP_SCALE_FACTOR))
+  }
+  return [sumS, sumG, sumSUSD, sumPSeconds]
+}
+
+/**
+ * Gain on an initial value for a growth in S or G
+ */
+function gainFromSum(initial: BigInt, sum: BigInt, snapshotP: BigInt): BigInt {
+  if (sum.le(ZERO_BI)) return ZERO_BI
+  return initial.times(sum).div(snapshotP).div(DECIMAL_PRECISION)
+}
+
+/**
+ * Compounded value of a deposit since its snapshot, as StabilityPool computes it
+ */
+function compoundedDeposit(deposit: StabilityDeposit, state: StabilityPoolState): BigInt {
+  let initial = deposit.initialDeposit
+  let snapshotP = deposit.snapshotP
+  if (initial.equals(ZERO_BI) || snapshotP.equals(ZERO_BI)) return ZERO_BI
+  return compoundedValue(initial, snapshotP, deposit.snapshotEpoch, deposit.snapshotScale, state)
+}
+
+
+/**
+ * Recompute a front end's compounded stake and its share of the issuance on it
+ */
+export function updateFrontEndCompounding(frontEnd: FrontEnd, state: StabilityPoolState): void {
+  frontEnd.stake = ZERO_BI
+  frontEnd.pendingProtocolTokenGain = ZERO_BI
+
+  let initial = frontEnd.initialStake
+  let snapshotP = frontEnd.snapshotP
+  if (initial.equals(ZERO_BI) || snapshotP.equals(ZERO_BI)) return
+
+  frontEnd.stake = compoundedValue(initial, snapshotP, frontEnd.snapshotEpoch, frontEnd.snapshotScale, state)
+
+  let sums = sumsSinceSnapshot(
+    frontEnd.snapshotEpoch,
+    frontEnd.snapshotScale,
+    ZERO_BI,
+    frontEnd.snapshotG,
+    ZERO_BI,
+    ZERO_BI
+  )
+  let frontEndShare = DECIMAL_PRECISION.minus(frontEnd.kickbackRate)
+  frontEnd.pendingProtocolTokenGain = gainFromSum(initial, sums[1], snapshotP)
+    .times(frontEndShare)
+    .div(DECIMAL_PRECISION)
+}
+
+/**
+ * Count a deposit opening or emptying in the pool's depositor count
+ */
+export function countPoolDepositor(state: StabilityPoolState, wasOpen: boolean, isOpen: boolean): void {
+  if (!wasOpen && isOpen) {
+    state.depositorCount = state.depositorCount + 1
+  } else if (wasOpen && !isOpen) {
+    state.depositorCount = state.depositorCount - 1
+  }
+}
+
+/**
+ * Settle a deposit against its old snapshot: accrue its compounded balance over time, credit what it
+ * earned and carry its compounded value forward as the initial value until the change that follows
+ * The current epoch and scale must be accrued up to the timestamp first
+ */
+export function settleDeposit(deposit: StabilityDeposit, state: StabilityPoolState, timestamp: BigInt): void {
+  let initial = deposit.initialDeposit
+  let snapshotP = deposit.snapshotP
+  let balanceSeconds = ZERO_BD
+  let filGainUSD = ZERO_BD
+  if (initial.gt(ZERO_BI) && snapshotP.gt(ZERO_BI)) {
+    let sums = sumsSinceSnapshot(
+      deposit.snapshotEpoch,
+      deposit.snapshotScale,
+      deposit.snapshotS,
+      deposit.snapshotG,
+      deposit.snapshotSUSD,
+      deposit.snapshotPSeconds
+    )
+    filGainUSD = gainFromSum(initial, sums[2], snapshotP).toBigDecimal().div(DECIMAL_PRECISION_BD)
+    balanceSeconds = initial.times(sums[3]).div(snapshotP).toBigDecimal().div(DECIMAL_PRECISION_BD)
+  }
+
+  accrueDepositTime(deposit, balanceSeconds, timestamp)
+  let compounded = compoundedDeposit(deposit, state)
+  recordDepositEarnings(deposit, initial.minus(compounded), filGainUSD)
+  deposit.initialDeposit = compounded
+  updateDepositYield(deposit)
+}
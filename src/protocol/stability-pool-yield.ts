@@ -0,0 +1,152 @@
+/**
+ * USDFC v0 - Stability Pool Yield
+ * Realised depositor and pool-wide yield in USD over time-weighted deposit balances
+ */
+
+import { BigInt, BigDecimal } from "@graphprotocol/graph-ts"
+import {
+  StabilityDeposit,
+  StabilityPoolState,
+  StabilityPoolDailySnapshot
+} from "../../generated/schema"
+import {
+  ZERO_BI,
+  ZERO_BD,
+  HUNDRED_BD,
+  DECIMAL_PRECISION_BD,
+  SECONDS_PER_DAY,
+  SECONDS_PER_YEAR
+} from "../utils/constants"
+import { getDayId, getDayString, getDayStartTimestamp } from "../utils/helpers"
+
+/**
+ * Annualise a return earned over a time-weighted balance (USDFC x seconds)
+ */
+function annualise(earned: BigDecimal, balanceSeconds: BigDecimal): BigDecimal {
+  if (balanceSeconds.le(ZERO_BD)) return ZERO_BD
+  return earned.times(SECONDS_PER_YEAR.toBigDecimal()).div(balanceSeconds)
+}
+
+/**
+ * Accrue a deposit's time-weighted compounded balance since its last accrual (USDFC x seconds)
+ */
+export function accrueDepositTime(deposit: StabilityDeposit, balanceSeconds: BigDecimal, timestamp: BigInt): void {
+  deposit.depositSeconds = deposit.depositSeconds.plus(balanceSeconds)
+  deposit.lastAccrualTimestamp = timestamp
+}
+
+/**
+ * Credit what a deposit earned since its snapshot: FIL gains as valued by the liquidations that paid
+ * them, less the USDFC absorbed
+ */
+export function recordDepositEarnings(deposit: StabilityDeposit, debtTokenLost: BigInt, filGainUSD: BigDecimal): void {
+  if (filGainUSD.gt(ZERO_BD)) {
+    deposit.filGainEarnedUSD = deposit.filGainEarnedUSD.plus(filGainUSD)
+  }
+  if (debtTokenLost.gt(ZERO_BI)) {
+    deposit.debtTokenLossUSD = deposit.debtTokenLossUSD.plus(debtTokenLost.toBigDecimal().div(DECIMAL_PRECISION_BD))
+  }
+  deposit.realisedYieldUSD = deposit.filGainEarnedUSD.minus(deposit.debtTokenLossUSD)
+}
+
+/**
+ * Refresh a deposit's realised APR and protocol token reward rate
+ */
+export function updateDepositYield(deposit: StabilityDeposit): void {
+  deposit.yieldRate = annualise(deposit.realisedYieldUSD, deposit.depositSeconds).times(HUNDRED_BD)
+  deposit.protocolTokenRewardRate = annualise(
+    deposit.totalProtocolTokenGained.toBigDecimal().div(DECIMAL_PRECISION_BD),
+    deposit.depositSeconds
+  )
+}
+
+/**
+ * Load the pool's snapshot for the day, refreshing its pool size
+ */
+export function getOrCreateStabilityPoolDailySnapshot(
+  state: StabilityPoolState,
+  timestamp: BigInt
+): StabilityPoolDailySnapshot {
+  let dayId = getDayId(timestamp)
+  let daily = StabilityPoolDailySnapshot.load(dayId)
+  if (daily == null) {
+    daily = new StabilityPoolDailySnapshot(dayId)
+    daily.date = getDayString(timestamp)
+    daily.timestamp = getDayStartTimestamp(timestamp)
+    daily.pool = state.id
+    daily.depositSeconds = ZERO_BD
+    daily.averageDeposits = ZERO_BD
+    daily.absorptionCount = ZERO_BI
+    daily.filGainUSD = ZERO_BD
+    daily.debtTokenLossUSD = ZERO_BD
+    daily.liquidationGainUSD = ZERO_BD
+    daily.protocolTokenPaid = ZERO_BI
+    daily.apr = ZERO_BD
+    daily.protocolTokenRewardRate = ZERO_BD
+  }
+  daily.totalDebtTokenDeposits = state.totalDebtTokenDeposits
+  daily.totalFIL = state.totalFIL
+  daily.depositorCount = state.depositorCount
+  daily.lastUpdateTimestamp = timestamp
+  return daily
+}
+
+/**
+ * Accrue the pool's total deposits up to a timestamp, lifetime and for each day of the interval
+ * Call before the deposits change
+ */
+export function accruePoolTime(state: StabilityPoolState, timestamp: BigInt): void {
+  if (timestamp.le(state.lastAccrualTimestamp)) return
+
+  let deposits = state.totalDebtTokenDeposits.toBigDecimal().div(DECIMAL_PRECISION_BD)
+  let from = state.lastAccrualTimestamp
+  if (from.gt(ZERO_BI)) {
+    state.depositSeconds = state.depositSeconds.plus(deposits.times(timestamp.minus(from).toBigDecimal()))
+  } else {
+    from = getDayStartTimestamp(timestamp)
+  }
+
+  // Days without pool events still get their share, so the daily series has no gaps
+  let dayStart = getDayStartTimestamp(from)
+  while (dayStart.lt(timestamp)) {
+    let dayEnd = dayStart.plus(SECONDS_PER_DAY)
+    let since = from.gt(dayStart) ? from : dayStart
+    let until = dayEnd.lt(timestamp) ? dayEnd : timestamp
+    let daily = getOrCreateStabilityPoolDailySnapshot(state, dayStart)
+    daily.depositSeconds = daily.depositSeconds.plus(deposits.times(until.minus(since).toBigDecimal()))
+    daily.lastUpdateTimestamp = until
+    updateDailyPoolYield(daily)
+    daily.save()
+    dayStart = dayEnd
+  }
+
+  state.lastAccrualTimestamp = timestamp
+  updatePoolYield(state)
+}
+
+/**
+ * Refresh the pool's lifetime realised APR
+ */
+export function updatePoolYield(state: StabilityPoolState): void {
+  state.realisedAPR = annualise(state.totalLiquidationGainUSD, state.depositSeconds).times(HUNDRED_BD)
+}
+
+/**
+ * Refresh a day's average deposits and annualised yield
+ */
+export function updateDailyPoolYield(daily: StabilityPoolDailySnapshot): void {
+  let elapsed = daily.lastUpdateTimestamp.minus(daily.timestamp)
+  if (elapsed.gt(ZERO_BI) && daily.depositSeconds.gt(ZERO_BD)) {
+    daily.averageDeposits = daily.depositSeconds.div(elapsed.toBigDecimal())
+  } else {
+    daily.averageDeposits = daily.totalDebtTokenDeposits.toBigDecimal().div(DECIMAL_PRECISION_BD)
+  }
+
+  // A full day of the average balance is the base, so a partial day reads as earned-so-far
+  let daySeconds = daily.averageDeposits.times(SECONDS_PER_DAY.toBigDecimal())
+  daily.apr = annualise(daily.liquidationGainUSD, daySeconds).times(HUNDRED_BD)
+  daily.protocolTokenRewardRate = annualise(
+    daily.protocolTokenPaid.toBigDecimal().div(DECIMAL_PRECISION_BD),
+    daySeconds
+  )
+}
@@ -6,7 +6,21 @@
 import { BigInt, BigDecimal, log } from "@graphprotocol/graph-ts"
 import {
   UserDepositChanged as UserDepositChangedEvent,
-  FILGainWithdrawn as FILGainWithdrawnEvent
+  FILGainWithdrawn as FILGainWithdrawnEvent,
+  DepositSnapshotUpdated as DepositSnapshotUpdatedEvent,
+  P_Updated as PUpdatedEvent,
+  S_Updated as SUpdatedEvent,
+  G_Updated as GUpdatedEvent,
+  EpochUpdated as EpochUpdatedEvent,
+  ScaleUpdated as ScaleUpdatedEvent,
+  StabilityPoolDebtTokenBalanceUpdated as StabilityPoolDebtTokenBalanceUpdatedEvent,
+  StabilityPoolFILBalanceUpdated as StabilityPoolFILBalanceUpdatedEvent,
+  ProtocolTokenPaidToDepositor as ProtocolTokenPaidToDepositorEvent,
+  FrontEndRegistered as FrontEndRegisteredEvent,
+  FrontEndTagSet as FrontEndTagSetEvent,
+  FrontEndSnapshotUpdated as FrontEndSnapshotUpdatedEvent,
+  FrontEndStakeChanged as FrontEndStakeChangedEvent,
+  ProtocolTokenPaidToFrontEnd as ProtocolTokenPaidToFrontEndEvent
 } from "../../generated/StabilityPool_V0_Enhanced/StabilityPool"
 import {
   Transaction,
@@ -16,20 +30,48 @@ import {
   ProtocolStats
 } from "../../generated/schema"
 import {
-  createUniversalTransaction,
-  ensureAccount,
   TX_SOURCE_CONTRACT_EVENT,
   TX_CATEGORY_STABILITY_OPERATION,
   ECOSYSTEM_PROTOCOL_NATIVE,
   ZERO_BI,
+  ONE_BI,
   ZERO_BD,
-  GLOBAL_STATS_ID
+  GLOBAL_STATS_ID,
+  ZERO_ADDRESS_BYTES
 } from "../utils/constants"
 import {
   logTransactionStart,
   logTransactionComplete,
   calculatePercentage
 } from "../utils/helpers"
+import { createUniversalTransaction, ensureAccount } from "../core/universal-transaction"
+import {
+  getOrCreateStabilityPoolState,
+  getOrCreateEpochScale,
+  accrueCurrentEpochScale,
+  addFILGainSum,
+  createStabilityDeposit,
+  settleDeposit,
+  countPoolDepositor,
+  updateFrontEndCompounding
+} from "./stability-pool-rewards"
+import {
+  getOrCreateFrontEnd,
+  registerFrontEnd,
+  tagDeposit
+} from "./stability-pool-front-ends"
+import {
+  beginAbsorption,
+  recordDebtTokenBalance,
+  recordFILBalance
+} from "./stability-pool-absorption"
+import {
+  updateDepositYield,
+  accruePoolTime,
+  getOrCreateStabilityPoolDailySnapshot,
+  updateDailyPoolYield
+} from "./stability-pool-yield"
+import { getLatestFilPrice } from "../core/oracle-state"
 
 /**
  * Enhanced User Deposit Changed handler with yield tracking
@@ -55,7 +97,7 @@ export function handleUserDepositChanged(event: UserDepositChangedEvent): void {
     TX_CATEGORY_STABILITY_OPERATION,
     ECOSYSTEM_PROTOCOL_NATIVE,
     event.logIndex,
-    event.transaction.gasUsed,
+    null, // Gas used is only available from the receipt
     event.transaction.gasPrice,
     true,
     null
@@ -64,30 +106,24 @@ export function handleUserDepositChanged(event: UserDepositChangedEvent): void {
   // Ensure account exists
   let account = ensureAccount(event.params._depositor)
   
-  // Load or create stability deposit
+  // The deposit was compounded up to this change by the preceding DepositSnapshotUpdated
   let deposit = StabilityDeposit.load(event.params._depositor)
-  let isNewDepositor = deposit == null
-  
+  let isNewDepositor = deposit == null || deposit.totalDeposited.equals(ZERO_BI)
   if (deposit == null) {
-    deposit = new StabilityDeposit(event.params._depositor)
-    deposit.depositor = event.params._depositor
-    deposit.totalDeposited = ZERO_BI
-    deposit.totalWithdrawn = ZERO_BI
-    deposit.totalCollateralGained = ZERO_BI
-    deposit.totalProtocolTokenGained = ZERO_BI
-    deposit.firstDepositAt = event.block.timestamp
-    deposit.averageDeposit = ZERO_BD
-    deposit.yieldRate = ZERO_BD
-    deposit.performanceScore = BigDecimal.fromString("100")
-    deposit.riskScore = BigDecimal.fromString("10") // Low risk for stability deposits
-    deposit.daysActive = ZERO_BI
+    deposit = createStabilityDeposit(event.params._depositor, event.block.timestamp)
   }
   
-  // Store previous deposit for operation tracking
-  let previousDeposit = deposit.currentDeposit || ZERO_BI
+  // Store previous (compounded) deposit for operation tracking
+  let previousDeposit = deposit.initialDeposit
+  
+  // The new deposit becomes the initial value of the fresh snapshot
+  let state = getOrCreateStabilityPoolState()
+  deposit.initialDeposit = event.params._newDeposit
+  updateDepositYield(deposit)
+  state.lastUpdateBlock = event.block.number
+  state.lastUpdateTimestamp = event.block.timestamp
+  state.save()
   
-  // Update current state
-  deposit.currentDeposit = event.params._newDeposit
   deposit.lastActivityAt = event.block.timestamp
   deposit.daysActive = event.block.timestamp.minus(deposit.firstDepositAt).div(BigInt.fromI32(86400))
   
@@ -146,7 +182,7 @@ export function handleFILGainWithdrawn(event: FILGainWithdrawnEvent): void {
     TX_CATEGORY_STABILITY_OPERATION,
     ECOSYSTEM_PROTOCOL_NATIVE,
     event.logIndex,
-    event.transaction.gasUsed,
+    null, // Gas used is only available from the receipt
     event.transaction.gasPrice,
     true,
     null
@@ -156,12 +192,10 @@ export function handleFILGainWithdrawn(event: FILGainWithdrawnEvent): void {
   let deposit = StabilityDeposit.load(event.params._depositor)
   if (deposit != null) {
     deposit.totalCollateralGained = deposit.totalCollateralGained.plus(event.params._FIL)
-    deposit.totalProtocolTokenGained = deposit.totalProtocolTokenGained.plus(event.params._LQTYAmount)
+    deposit.totalDebtTokenLoss = deposit.totalDebtTokenLoss.plus(event.params._debtTokenLoss)
     deposit.lastActivityAt = event.block.timestamp
     
-    // Update yield rate calculation
-    updateYieldMetrics(deposit, event.params._FIL, event.params._LQTYAmount, event.block.timestamp)
-    
+    // Gains were already valued as they were earned; withdrawing them realises nothing new
     deposit.save()
     
     // Create operation record
@@ -172,7 +206,7 @@ export function handleFILGainWithdrawn(event: FILGainWithdrawnEvent): void {
     operation.operation = "CLAIM_GAINS"
     operation.amount = ZERO_BI // No deposit amount change
     operation.collateralGainClaimed = event.params._FIL
-    operation.protocolTokenClaimed = event.params._LQTYAmount
+    operation.protocolTokenClaimed = ZERO_BI
     operation.blockNumber = event.block.number
     operation.transactionHash = event.transaction.hash
     operation.save()
@@ -181,6 +215,244 @@ export function handleFILGainWithdrawn(event: FILGainWithdrawnEvent): void {
   logTransactionComplete("FILGainWithdrawn", event.params._depositor.toHexString())
 }
 
+/**
+ * Deposit Snapshot Updated handler - compounds the deposit, then records its new snapshot
+ */
+export function handleDepositSnapshotUpdated(event: DepositSnapshotUpdatedEvent): void {
+  let state = getOrCreateStabilityPoolState()
+  let epochScale = accrueCurrentEpochScale(state, event.block.timestamp)
+
+  let deposit = StabilityDeposit.load(event.params._depositor)
+  let wasOpen = false
+  if (deposit == null) {
+    deposit = createStabilityDeposit(event.params._depositor, event.block.timestamp)
+  } else {
+    // Losses and gains up to this point are settled against the old snapshot
+    wasOpen = deposit.initialDeposit.gt(ZERO_BI)
+    settleDeposit(deposit, state, event.block.timestamp)
+  }
+
+  deposit.snapshotP = event.params._P
+  deposit.snapshotS = event.params._S
+  deposit.snapshotG = event.params._G
+  deposit.snapshotEpoch = state.currentEpoch
+  deposit.snapshotScale = state.currentScale
+  deposit.snapshotSUSD = epochScale.SUSD
+  deposit.snapshotPSeconds = epochScale.PSeconds
+  deposit.lastAccrualTimestamp = event.block.timestamp
+  deposit.save()
+
+  // An emptied deposit has its snapshot cleared
+  countPoolDepositor(state, wasOpen, event.params._P.gt(ZERO_BI))
+  state.save()
+}
+
+/**
+ * P Updated handler - opens a liquidation offset
+ * Deposits are settled against the new P on their own next snapshot; until then clients
+ * compound them live from P and the epoch and scale sums
+ */
+export function handlePUpdated(event: PUpdatedEvent): void {
+  let state = getOrCreateStabilityPoolState()
+  state.P = event.params._P
+  state.lastUpdateBlock = event.block.number
+  state.lastUpdateTimestamp = event.block.timestamp
+
+  // The old P held until now
+  let epochScale = accrueCurrentEpochScale(state, event.block.timestamp)
+  epochScale.P = event.params._P
+  epochScale.lastUpdateBlock = event.block.number
+  epochScale.lastUpdateTimestamp = event.block.timestamp
+  epochScale.save()
+
+  // Only offsets move P; the pool's balance updates follow
+  beginAbsorption(state, event.transaction.hash, event.logIndex, event.block.number, event.block.timestamp)
+  state.save()
+}
+
+/**
+ * S Updated handler - FIL gain sum for an epoch and scale, valued at the liquidation's price
+ */
+export function handleSUpdated(event: SUpdatedEvent): void {
+  let epochScale = getOrCreateEpochScale(event.params._epoch, event.params._scale, event.block.timestamp)
+  addFILGainSum(epochScale, event.params._S, getLatestFilPrice())
+  epochScale.lastUpdateBlock = event.block.number
+  epochScale.lastUpdateTimestamp = event.block.timestamp
+  epochScale.save()
+}
+
+/**
+ * G Updated handler - protocol token issuance sum for an epoch and scale
+ */
+export function handleGUpdated(event: GUpdatedEvent): void {
+  let epochScale = getOrCreateEpochScale(event.params._epoch, event.params._scale, event.block.timestamp)
+  epochScale.G = event.params._G
+  epochScale.lastUpdateBlock = event.block.number
+  epochScale.lastUpdateTimestamp = event.block.timestamp
+  epochScale.save()
+}
+
+/**
+ * Epoch Updated handler - the pool was emptied by a liquidation
+ */
+export function handleEpochUpdated(event: EpochUpdatedEvent): void {
+  let state = getOrCreateStabilityPoolState()
+  accrueCurrentEpochScale(state, event.block.timestamp)
+  state.currentEpoch = event.params._currentEpoch
+  state.currentScale = ZERO_BI // The scale restarts with the epoch
+  state.lastUpdateBlock = event.block.number
+  state.lastUpdateTimestamp = event.block.timestamp
+  state.save()
+
+  log.info("Stability Pool epoch advanced to {}", [event.params._currentEpoch.toString()])
+}
+
+/**
+ * Scale Updated handler - P was rescaled
+ */
+export function handleScaleUpdated(event: ScaleUpdatedEvent): void {
+  let state = getOrCreateStabilityPoolState()
+  if (!event.params._currentScale.equals(state.currentScale)) {
+    accrueCurrentEpochScale(state, event.block.timestamp)
+  }
+  state.currentScale = event.params._currentScale
+  state.lastUpdateBlock = event.block.number
+  state.lastUpdateTimestamp = event.block.timestamp
+  state.save()
+}
+
+/**
+ * Stability Pool USDFC Balance handler - tracks total deposits and offset burns
+ */
+export function handleStabilityPoolDebtTokenBalanceUpdated(event: StabilityPoolDebtTokenBalanceUpdatedEvent): void {
+  let state = getOrCreateStabilityPoolState()
+  accruePoolTime(state, event.block.timestamp)
+  recordDebtTokenBalance(state, event.params._newBalance, event.transaction.hash)
+  state.lastUpdateBlock = event.block.number
+  state.lastUpdateTimestamp = event.block.timestamp
+  state.save()
+}
+
+/**
+ * Stability Pool FIL Balance handler - tracks FIL held and liquidation gains
+ */
+export function handleStabilityPoolFILBalanceUpdated(event: StabilityPoolFILBalanceUpdatedEvent): void {
+  let state = getOrCreateStabilityPoolState()
+  accruePoolTime(state, event.block.timestamp)
+  recordFILBalance(state, event.params._newBalance, event.transaction.hash, event.block.timestamp)
+  state.lastUpdateBlock = event.block.number
+  state.lastUpdateTimestamp = event.block.timestamp
+  state.save()
+}
+
+/**
+ * Protocol Token Paid To Depositor handler - issuance rewards claimed by a depositor
+ */
+export function handleProtocolTokenPaidToDepositor(event: ProtocolTokenPaidToDepositorEvent): void {
+  let amount = event.params._protocolToken
+  let state = getOrCreateStabilityPoolState()
+
+  let deposit = StabilityDeposit.load(event.params._depositor)
+  if (deposit != null) {
+    deposit.totalProtocolTokenGained = deposit.totalProtocolTokenGained.plus(amount)
+    updateDepositYield(deposit)
+    deposit.save()
+  }
+
+  accruePoolTime(state, event.block.timestamp)
+  state.totalProtocolTokenPaid = state.totalProtocolTokenPaid.plus(amount)
+  state.lastUpdateBlock = event.block.number
+  state.lastUpdateTimestamp = event.block.timestamp
+  state.save()
+
+  let daily = getOrCreateStabilityPoolDailySnapshot(state, event.block.timestamp)
+  daily.protocolTokenPaid = daily.protocolTokenPaid.plus(amount)
+  updateDailyPoolYield(daily)
+  daily.save()
+}
+
+/**
+ * Front End Registered handler - kickback rate of a new front end
+ */
+export function handleFrontEndRegistered(event: FrontEndRegisteredEvent): void {
+  let state = getOrCreateStabilityPoolState()
+  let frontEnd = getOrCreateFrontEnd(event.params._frontEnd, state, event.block.number, event.block.timestamp)
+  registerFrontEnd(frontEnd, event.params._kickbackRate, event.block.number, event.block.timestamp)
+  frontEnd.save()
+  state.save()
+
+  log.info("Front end {} registered with kickback rate {}%", [
+    event.params._frontEnd.toHexString(),
+    frontEnd.kickbackRatePercent.toString()
+  ])
+}
+
+/**
+ * Front End Tag Set handler - links a fresh deposit to the front end it came through
+ * Emitted before the deposit's snapshot, so the deposit may not exist yet
+ */
+export function handleFrontEndTagSet(event: FrontEndTagSetEvent): void {
+  let state = getOrCreateStabilityPoolState()
+
+  let deposit = StabilityDeposit.load(event.params._depositor)
+  if (deposit == null) {
+    ensureAccount(event.params._depositor)
+    deposit = createStabilityDeposit(event.params._depositor, event.block.timestamp)
+  }
+
+  if (event.params._frontEnd.equals(ZERO_ADDRESS_BYTES)) {
+    tagDeposit(deposit, null)
+  } else {
+    let frontEnd = getOrCreateFrontEnd(event.params._frontEnd, state, event.block.number, event.block.timestamp)
+    tagDeposit(deposit, frontEnd)
+    frontEnd.save()
+    state.save()
+  }
+  deposit.save()
+}
+
+/**
+ * Front End Snapshot Updated handler - settles the front end stake, then records its new snapshot
+ */
+export function handleFrontEndSnapshotUpdated(event: FrontEndSnapshotUpdatedEvent): void {
+  let state = getOrCreateStabilityPoolState()
+  let frontEnd = getOrCreateFrontEnd(event.params._frontEnd, state, event.block.number, event.block.timestamp)
+  updateFrontEndCompounding(frontEnd, state)
+
+  frontEnd.snapshotP = event.params._P
+  frontEnd.snapshotG = event.params._G
+  frontEnd.snapshotEpoch = state.currentEpoch
+  frontEnd.snapshotScale = state.currentScale
+  frontEnd.save()
+  state.save()
+}
+
+/**
+ * Front End Stake Changed handler - new stake of the deposits tagged to a front end
+ */
+export function handleFrontEndStakeChanged(event: FrontEndStakeChangedEvent): void {
+  let state = getOrCreateStabilityPoolState()
+  let frontEnd = getOrCreateFrontEnd(event.params._frontEnd, state, event.block.number, event.block.timestamp)
+
+  // The stake becomes the initial value of the snapshot just taken
+  frontEnd.initialStake = event.params._newFrontEndStake
+  frontEnd.stakeChangeCount = frontEnd.stakeChangeCount.plus(ONE_BI)
+  updateFrontEndCompounding(frontEnd, state)
+  frontEnd.save()
+  state.save()
+}
+
+/**
+ * Protocol Token Paid To Front End handler - the front end's cut of issuance
+ */
+export function handleProtocolTokenPaidToFrontEnd(event: ProtocolTokenPaidToFrontEndEvent): void {
+  let state = getOrCreateStabilityPoolState()
+  let frontEnd = getOrCreateFrontEnd(event.params._frontEnd, state, event.block.number, event.block.timestamp)
+  frontEnd.totalProtocolTokenEarned = frontEnd.totalProtocolTokenEarned.plus(event.params._protocolToken)
+  frontEnd.save()
+  state.save()
+}
+
 /**
  * Update stability deposit performance metrics
  */
@@ -190,9 +462,9 @@ function updateStabilityPerformance(deposit: StabilityDeposit, timestamp: BigInt
     let weight = BigDecimal.fromString("0.1") // 10% weight for new data
     deposit.averageDeposit = deposit.averageDeposit
       .times(BigDecimal.fromString("0.9"))
-      .plus(deposit.currentDeposit.toBigDecimal().times(weight))
+      .plus(deposit.initialDeposit.toBigDecimal().times(weight))
   } else {
-    deposit.averageDeposit = deposit.currentDeposit.toBigDecimal()
+    deposit.averageDeposit = deposit.initialDeposit.toBigDecimal()
   }
   
   // Calculate performance score based on consistency and duration
@@ -200,9 +472,9 @@ function updateStabilityPerformance(deposit: StabilityDeposit, timestamp: BigInt
     BigDecimal.fromString("100") : 
     deposit.daysActive.toBigDecimal().times(BigDecimal.fromString("3.33")) // 30 days = 100 points
   
-  let sizeScore = deposit.currentDeposit.gt(BigInt.fromString("1000000000000000000000")) ? // 1000 USDFC
+  let sizeScore = deposit.initialDeposit.gt(BigInt.fromString("1000000000000000000000")) ? // 1000 USDFC
     BigDecimal.fromString("100") :
-    deposit.currentDeposit.toBigDecimal().div(BigDecimal.fromString("10000000000000000000")) // Scale by 10 USDFC
+    deposit.initialDeposit.toBigDecimal().div(BigDecimal.fromString("10000000000000000000")) // Scale by 10 USDFC
   
   deposit.performanceScore = consistencyScore.plus(sizeScore).div(BigDecimal.fromString("2"))
   if (deposit.performanceScore.gt(BigDecimal.fromString("100"))) {
@@ -210,33 +482,6 @@ function updateStabilityPerformance(deposit: StabilityDeposit, timestamp: BigInt
   }
 }
 
-/**
- * Update yield metrics when gains are withdrawn
- */
-function updateYieldMetrics(
-  deposit: StabilityDeposit, 
-  filGain: BigInt, 
-  protocolTokenGain: BigInt,
-  timestamp: BigInt
-): void {
-  
-  if (deposit.daysActive.gt(ZERO_BI) && deposit.averageDeposit.gt(ZERO_BD)) {
-    // Calculate annualized yield rate from FIL gains
-    let dailyYield = filGain.toBigDecimal().div(deposit.averageDeposit)
-    let annualizedYield = dailyYield.times(BigDecimal.fromString("365"))
-    
-    // Update running average of yield rate
-    if (deposit.yieldRate.equals(ZERO_BD)) {
-      deposit.yieldRate = annualizedYield.times(BigDecimal.fromString("100")) // Convert to percentage
-    } else {
-      // 20% weight for new data, 80% for historical
-      deposit.yieldRate = deposit.yieldRate
-        .times(BigDecimal.fromString("0.8"))
-        .plus(annualizedYield.times(BigDecimal.fromString("100")).times(BigDecimal.fromString("0.2")))
-    }
-  }
-}
-
 /**
  * Create stability operation record
  */
@@ -0,0 +1,119 @@
+/**
+ * USDFC v0 - Protocol Token Staking Rewards
+ * F_FIL/F_DebtToken fee accumulators, staker snapshots and daily fee revenue
+ */
+
+import { BigInt, BigDecimal } from "@graphprotocol/graph-ts"
+import {
+  ProtocolTokenStakingState,
+  DailyStakingStats
+} from "../../generated/schema"
+import {
+  ZERO_BI,
+  ZERO_BD,
+  DECIMAL_PRECISION,
+  DECIMAL_PRECISION_BD,
+  STAKING_STATE_ID
+} from "../utils/constants"
+import { getDayId, getDayString, getDayStartTimestamp } from "../utils/helpers"
+import { filToUSD } from "../core/oracle-state"
+
+/**
+ * Load the staking state, creating it on first use
+ */
+export function getOrCreateStakingState(): ProtocolTokenStakingState {
+  let state = ProtocolTokenStakingState.load(STAKING_STATE_ID)
+  if (state == null) {
+    state = new ProtocolTokenStakingState(STAKING_STATE_ID)
+    state.F_FIL = ZERO_BI
+    state.F_DebtToken = ZERO_BI
+    state.totalProtocolTokenStaked = ZERO_BI
+    state.stakerCount = 0
+    state.totalFILFees = ZERO_BI
+    state.totalDebtTokenFees = ZERO_BI
+    state.totalFeesUSD = ZERO_BD
+    state.totalFILSent = ZERO_BI
+    state.lastUpdateBlock = ZERO_BI
+    state.lastUpdateTimestamp = ZERO_BI
+  }
+  return state
+}
+
+/**
+ * USD value of FIL and USDFC gains, treating USDFC as $1
+ */
+export function stakingGainsToUSD(filGain: BigInt, debtTokenGain: BigInt, price: BigInt): BigDecimal {
+  return filToUSD(filGain, price).plus(debtTokenGain.toBigDecimal().div(DECIMAL_PRECISION_BD))
+}
+
+/**
+ * Count a stake opening or emptying in the staker count
+ */
+export function countStaker(state: ProtocolTokenStakingState, wasStaking: boolean, isStaking: boolean): void {
+  if (!wasStaking && isStaking) {
+    state.stakerCount = state.stakerCount + 1
+  } else if (wasStaking && !isStaking) {
+    state.stakerCount = state.stakerCount - 1
+  }
+}
+
+/**
+ * Load the day's staking stats, refreshing the staked total
+ */
+export function getOrCreateDailyStakingStats(
+  state: ProtocolTokenStakingState,
+  timestamp: BigInt
+): DailyStakingStats {
+  let dayId = getDayId(timestamp)
+  let daily = DailyStakingStats.load(dayId)
+  if (daily == null) {
+    daily = new DailyStakingStats(dayId)
+    daily.date = getDayString(timestamp)
+    daily.timestamp = getDayStartTimestamp(timestamp)
+    daily.state = state.id
+    daily.filFees = ZERO_BI
+    daily.debtTokenFees = ZERO_BI
+    daily.feesUSD = ZERO_BD
+    daily.filSent = ZERO_BI
+    daily.revenuePerTokenUSD = ZERO_BD
+    daily.annualisedRevenuePerTokenUSD = ZERO_BD
+  }
+  daily.totalProtocolTokenStaked = state.totalProtocolTokenStaked
+  daily.lastUpdateTimestamp = timestamp
+  return daily
+}
+
+/**
+ * Record fees distributed by an accumulator increase: the increase per token times the total staked
+ */
+export function recordStakingFees(
+  state: ProtocolTokenStakingState,
+  filFee: BigInt,
+  debtTokenFee: BigInt,
+  price: BigInt,
+  timestamp: BigInt
+): void {
+  let feesUSD = stakingGainsToUSD(filFee, debtTokenFee, price)
+  state.totalFILFees = state.totalFILFees.plus(filFee)
+  state.totalDebtTokenFees = state.totalDebtTokenFees.plus(debtTokenFee)
+  state.totalFeesUSD = state.totalFeesUSD.plus(feesUSD)
+
+  let daily = getOrCreateDailyStakingStats(state, timestamp)
+  daily.filFees = daily.filFees.plus(filFee)
+  daily.debtTokenFees = daily.debtTokenFees.plus(debtTokenFee)
+  daily.feesUSD = daily.feesUSD.plus(feesUSD)
+  if (state.totalProtocolTokenStaked.gt(ZERO_BI)) {
+    let stakedTokens = state.totalProtocolTokenStaked.toBigDecimal().div(DECIMAL_PRECISION_BD)
+    daily.revenuePerTokenUSD = daily.feesUSD.div(stakedTokens)
+    daily.annualisedRevenuePerTokenUSD = daily.revenuePerTokenUSD.times(BigDecimal.fromString("365"))
+  }
+  daily.save()
+}
+
+/**
+ * Fees behind an accumulator increase, spread over the tokens staked at the time
+ */
+export function feeFromAccumulator(previous: BigInt, current: BigInt, totalStaked: BigInt): BigInt {
+  if (current.le(previous)) return ZERO_BI
+  return current.minus(previous).times(totalStaked).div(DECIMAL_PRECISION)
+}
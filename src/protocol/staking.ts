@@ -3,32 +3,46 @@
  * Enhanced V5 staking logic with performance metrics and strategy analysis
  */
 
-import { BigInt, BigDecimal, log } from "@graphprotocol/graph-ts"
+import { BigInt, BigDecimal, Bytes, log } from "@graphprotocol/graph-ts"
 import {
   StakeChanged as StakeChangedEvent,
-  StakingGainsWithdrawn as StakingGainsWithdrawnEvent
+  StakingGainsWithdrawn as StakingGainsWithdrawnEvent,
+  F_FILUpdated as FFILUpdatedEvent,
+  F_DebtTokenUpdated as FDebtTokenUpdatedEvent,
+  TotalProtocolTokenStakedUpdated as TotalProtocolTokenStakedUpdatedEvent,
+  StakerSnapshotsUpdated as StakerSnapshotsUpdatedEvent,
+  FILSent as FILSentEvent
 } from "../../generated/ProtocolTokenStaking_V0_Enhanced/ProtocolTokenStaking"
 import {
   Transaction,
   Account,
   ProtocolStake,
   StakeOperation,
-  ProtocolStats
+  ProtocolTokenStakingState
 } from "../../generated/schema"
 import {
-  createUniversalTransaction,
-  ensureAccount,
   TX_SOURCE_CONTRACT_EVENT,
   TX_CATEGORY_STAKING_OPERATION,
   ECOSYSTEM_PROTOCOL_NATIVE,
   ZERO_BI,
   ZERO_BD,
-  GLOBAL_STATS_ID
+  DECIMAL_PRECISION_BD
 } from "../utils/constants"
 import {
   logTransactionStart,
   logTransactionComplete
 } from "../utils/helpers"
+import { createUniversalTransaction, ensureAccount } from "../core/universal-transaction"
+import { getLatestFilPrice } from "../core/oracle-state"
+import { getOrCreateProtocolStats } from "../core/protocol-stats"
+import {
+  getOrCreateStakingState,
+  getOrCreateDailyStakingStats,
+  stakingGainsToUSD,
+  countStaker,
+  recordStakingFees,
+  feeFromAccumulator
+} from "./staking-rewards"
 
 /**
  * Enhanced Stake Changed handler with strategy analysis
@@ -54,7 +68,7 @@ export function handleStakeChanged(event: StakeChangedEvent): void {
     TX_CATEGORY_STAKING_OPERATION,
     ECOSYSTEM_PROTOCOL_NATIVE,
     event.logIndex,
-    event.transaction.gasUsed,
+    null, // Gas used is only available from the receipt
     event.transaction.gasPrice,
     true,
     null
@@ -63,33 +77,26 @@ export function handleStakeChanged(event: StakeChangedEvent): void {
   // Ensure account exists
   let account = ensureAccount(event.params.staker)
   
-  // Load or create protocol stake
+  // Load or create protocol stake (its snapshot was taken just before)
   let stake = ProtocolStake.load(event.params.staker)
-  let isNewStaker = stake == null
-  
   if (stake == null) {
-    stake = new ProtocolStake(event.params.staker)
-    stake.staker = event.params.staker
-    stake.totalStaked = ZERO_BI
-    stake.totalUnstaked = ZERO_BI
-    stake.totalFILGained = ZERO_BI
-    stake.totalUSDFCGained = ZERO_BI
-    stake.firstStakeAt = event.block.timestamp
-    stake.averageStake = ZERO_BD
-    stake.stakingYieldRate = ZERO_BD
-    stake.performanceScore = BigDecimal.fromString("100")
-    stake.stakingStrategy = "CONSERVATIVE" // Default strategy
-    stake.daysActive = ZERO_BI
+    stake = createProtocolStake(event.params.staker, event.block.timestamp)
   }
   
   // Store previous stake for operation tracking
-  let previousStake = stake.stake || ZERO_BI
+  let previousStake = stake.stake
   
   // Update current state
   stake.stake = event.params.newStake
   stake.lastActivityAt = event.block.timestamp
   stake.daysActive = event.block.timestamp.minus(stake.firstStakeAt).div(BigInt.fromI32(86400))
   
+  let state = getOrCreateStakingState()
+  countStaker(state, previousStake.gt(ZERO_BI), stake.stake.gt(ZERO_BI))
+  state.lastUpdateBlock = event.block.number
+  state.lastUpdateTimestamp = event.block.timestamp
+  state.save()
+  
   // Determine operation type and update metrics
   let stakeChange = event.params.newStake.minus(previousStake)
   let operationType: string
@@ -112,11 +119,14 @@ export function handleStakeChanged(event: StakeChangedEvent): void {
   
   stake.save()
   
+  account.protocolStake = stake.id
+  account.save()
+  
   // Create operation record
   createStakeOperation(event, stake as ProtocolStake, operationType, stakeChange)
   
   // Update protocol stats
-  updateProtocolStatsForStaking(isNewStaker, stakeChange, event.block.timestamp)
+  updateProtocolStatsForStaking(state, ZERO_BI, ZERO_BI, event.block.number, event.block.timestamp)
   
   logTransactionComplete("StakeChanged", event.params.staker.toHexString())
 }
@@ -145,7 +155,7 @@ export function handleStakingGainsWithdrawn(event: StakingGainsWithdrawnEvent):
     TX_CATEGORY_STAKING_OPERATION,
     ECOSYSTEM_PROTOCOL_NATIVE,
     event.logIndex,
-    event.transaction.gasUsed,
+    null, // Gas used is only available from the receipt
     event.transaction.gasPrice,
     true,
     null
@@ -155,11 +165,14 @@ export function handleStakingGainsWithdrawn(event: StakingGainsWithdrawnEvent):
   let stake = ProtocolStake.load(event.params.staker)
   if (stake != null) {
     stake.totalFILGained = stake.totalFILGained.plus(event.params.FILGain)
-    stake.totalUSDFCGained = stake.totalUSDFCGained.plus(event.params.LUSDGain)
+    stake.totalUSDFCGained = stake.totalUSDFCGained.plus(event.params.debtTokenGain)
+    stake.totalGainsUSD = stake.totalGainsUSD.plus(
+      stakingGainsToUSD(event.params.FILGain, event.params.debtTokenGain, getLatestFilPrice())
+    )
     stake.lastActivityAt = event.block.timestamp
     
     // Update yield calculations
-    updateYieldMetrics(stake, event.params.FILGain, event.params.LUSDGain, event.block.timestamp)
+    updateYieldMetrics(stake)
     
     // Analyze staking strategy
     updateStakingStrategy(stake)
@@ -174,15 +187,120 @@ export function handleStakingGainsWithdrawn(event: StakingGainsWithdrawnEvent):
     operation.operation = "CLAIM_GAINS"
     operation.amount = ZERO_BI // No stake amount change
     operation.filClaimed = event.params.FILGain
-    operation.usdfcClaimed = event.params.LUSDGain
+    operation.usdfcClaimed = event.params.debtTokenGain
     operation.blockNumber = event.block.number
     operation.transactionHash = event.transaction.hash
     operation.save()
   }
   
+  updateProtocolStatsForStaking(
+    getOrCreateStakingState(),
+    event.params.FILGain,
+    event.params.debtTokenGain,
+    event.block.number,
+    event.block.timestamp
+  )
+  
   logTransactionComplete("StakingGainsWithdrawn", event.params.staker.toHexString())
 }
 
+/**
+ * F_FIL Updated handler - FIL redemption fees distributed to stakers
+ * Stakes pick up the increase from F_FIL - snapshot on their own next event
+ */
+export function handleFFILUpdated(event: FFILUpdatedEvent): void {
+  let state = getOrCreateStakingState()
+  let price = getLatestFilPrice()
+  let filFee = feeFromAccumulator(state.F_FIL, event.params._F_FIL, state.totalProtocolTokenStaked)
+
+  state.F_FIL = event.params._F_FIL
+  recordStakingFees(state, filFee, ZERO_BI, price, event.block.timestamp)
+  state.lastUpdateBlock = event.block.number
+  state.lastUpdateTimestamp = event.block.timestamp
+  state.save()
+}
+
+/**
+ * F_DebtToken Updated handler - USDFC borrowing fees distributed to stakers
+ */
+export function handleFDebtTokenUpdated(event: FDebtTokenUpdatedEvent): void {
+  let state = getOrCreateStakingState()
+  let price = getLatestFilPrice()
+  let debtTokenFee = feeFromAccumulator(state.F_DebtToken, event.params._F_DebtToken, state.totalProtocolTokenStaked)
+
+  state.F_DebtToken = event.params._F_DebtToken
+  recordStakingFees(state, ZERO_BI, debtTokenFee, price, event.block.timestamp)
+  state.lastUpdateBlock = event.block.number
+  state.lastUpdateTimestamp = event.block.timestamp
+  state.save()
+}
+
+/**
+ * Total Protocol Token Staked handler - stake the next fee increases are spread over
+ */
+export function handleTotalProtocolTokenStakedUpdated(event: TotalProtocolTokenStakedUpdatedEvent): void {
+  let state = getOrCreateStakingState()
+  state.totalProtocolTokenStaked = event.params._totalProtocolTokenStaked
+  state.lastUpdateBlock = event.block.number
+  state.lastUpdateTimestamp = event.block.timestamp
+  state.save()
+}
+
+/**
+ * Staker Snapshots Updated handler - gains are paid out, so the stake restarts from the current accumulators
+ * Emitted before the StakeChanged of the same call
+ */
+export function handleStakerSnapshotsUpdated(event: StakerSnapshotsUpdatedEvent): void {
+  ensureAccount(event.params._staker)
+  let stake = ProtocolStake.load(event.params._staker)
+  if (stake == null) {
+    stake = createProtocolStake(event.params._staker, event.block.timestamp)
+  }
+
+  stake.rewardSnapshotFIL = event.params._F_FIL
+  stake.rewardSnapshotDebtToken = event.params._F_DebtToken
+  stake.save()
+}
+
+/**
+ * FIL Sent handler - FIL gains paid out to a staker
+ */
+export function handleFILSent(event: FILSentEvent): void {
+  let state = getOrCreateStakingState()
+  state.totalFILSent = state.totalFILSent.plus(event.params._amount)
+  state.lastUpdateBlock = event.block.number
+  state.lastUpdateTimestamp = event.block.timestamp
+  state.save()
+
+  let daily = getOrCreateDailyStakingStats(state, event.block.timestamp)
+  daily.filSent = daily.filSent.plus(event.params._amount)
+  daily.save()
+}
+
+/**
+ * Create an empty protocol stake for a staker
+ */
+function createProtocolStake(staker: Bytes, timestamp: BigInt): ProtocolStake {
+  let stake = new ProtocolStake(staker)
+  stake.staker = staker
+  stake.stake = ZERO_BI
+  stake.totalStaked = ZERO_BI
+  stake.totalUnstaked = ZERO_BI
+  stake.totalFILGained = ZERO_BI
+  stake.totalUSDFCGained = ZERO_BI
+  stake.rewardSnapshotFIL = ZERO_BI
+  stake.rewardSnapshotDebtToken = ZERO_BI
+  stake.totalGainsUSD = ZERO_BD
+  stake.firstStakeAt = timestamp
+  stake.lastActivityAt = timestamp
+  stake.averageStake = ZERO_BD
+  stake.stakingYieldRate = ZERO_BD
+  stake.performanceScore = BigDecimal.fromString("100")
+  stake.stakingStrategy = "CONSERVATIVE" // Default strategy
+  stake.daysActive = ZERO_BI
+  return stake
+}
+
 /**
  * Update staking performance metrics
  */
@@ -214,29 +332,15 @@ function updateStakingPerformance(stake: ProtocolStake, timestamp: BigInt): void
 
 /**
  * Update yield metrics when gains are withdrawn
+ * The protocol token has no price source, so the rate is USD earned per staked token per year
  */
-function updateYieldMetrics(
-  stake: ProtocolStake,
-  filGain: BigInt,
-  usdfcGain: BigInt,
-  timestamp: BigInt
-): void {
-  
-  if (stake.daysActive.gt(ZERO_BI) && stake.averageStake.gt(ZERO_BD)) {
-    // Calculate annualized yield rate from total gains
-    let totalGainValue = filGain.plus(usdfcGain) // Simplified - would need price conversion
-    let dailyYield = totalGainValue.toBigDecimal().div(stake.averageStake)
-    let annualizedYield = dailyYield.times(BigDecimal.fromString("365"))
-    
-    // Update running average of yield rate
-    if (stake.stakingYieldRate.equals(ZERO_BD)) {
-      stake.stakingYieldRate = annualizedYield.times(BigDecimal.fromString("100")) // Convert to percentage
-    } else {
-      // 20% weight for new data, 80% for historical
-      stake.stakingYieldRate = stake.stakingYieldRate
-        .times(BigDecimal.fromString("0.8"))
-        .plus(annualizedYield.times(BigDecimal.fromString("100")).times(BigDecimal.fromString("0.2")))
-    }
+function updateYieldMetrics(stake: ProtocolStake): void {
+  let stakedTokens = stake.averageStake.div(DECIMAL_PRECISION_BD)
+  if (stake.daysActive.gt(ZERO_BI) && stakedTokens.gt(ZERO_BD)) {
+    stake.stakingYieldRate = stake.totalGainsUSD
+      .div(stakedTokens)
+      .div(stake.daysActive.toBigDecimal())
+      .times(BigDecimal.fromString("365"))
   }
 }
 
@@ -304,19 +408,18 @@ function createStakeOperation(
  * Update protocol stats for staking operations
  */
 function updateProtocolStatsForStaking(
-  isNewStaker: boolean,
-  stakeChange: BigInt,
+  state: ProtocolTokenStakingState,
+  filGain: BigInt,
+  debtTokenGain: BigInt,
+  blockNumber: BigInt,
   timestamp: BigInt
 ): void {
-  
-  let stats = ProtocolStats.load(GLOBAL_STATS_ID)
-  if (stats == null) return
-  
-  // Update staker count (would need to query actual count)
-  if (isNewStaker) {
-    // Increment staker count - simplified
-  }
-  
+  let stats = getOrCreateProtocolStats()
+  stats.totalProtocolTokenStaked = state.totalProtocolTokenStaked
+  stats.stakerCount = BigInt.fromI32(state.stakerCount)
+  stats.totalStakingFILGains = stats.totalStakingFILGains.plus(filGain)
+  stats.totalStakingDebtTokenGains = stats.totalStakingDebtTokenGains.plus(debtTokenGain)
+  stats.lastUpdateBlock = blockNumber
   stats.lastUpdateTimestamp = timestamp
   stats.save()
 }
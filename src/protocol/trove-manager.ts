@@ -3,12 +3,18 @@
  * Enhanced V5 trove logic with advanced risk analytics and ecosystem intelligence
  */
 
-import { BigInt, BigDecimal, log, Bytes } from "@graphprotocol/graph-ts"
+import { BigInt, BigDecimal, log, Bytes, Address, ethereum } from "@graphprotocol/graph-ts"
 import {
   TroveUpdated as TroveUpdatedEvent,
   TroveLiquidated as TroveLiquidatedEvent,
   Liquidation as LiquidationEvent,
-  Redemption as RedemptionEvent
+  Redemption as RedemptionEvent,
+  BaseRateUpdated as BaseRateUpdatedEvent,
+  LastFeeOpTimeUpdated as LastFeeOpTimeUpdatedEvent,
+  LTermsUpdated as LTermsUpdatedEvent,
+  TroveSnapshotsUpdated as TroveSnapshotsUpdatedEvent,
+  SystemSnapshotsUpdated as SystemSnapshotsUpdatedEvent,
+  TotalStakesUpdated as TotalStakesUpdatedEvent
 } from "../../generated/TroveManager_V0_Enhanced/TroveManager"
 import {
   Transaction,
@@ -16,12 +22,16 @@ import {
   Trove,
   TroveOperation,
   Liquidation,
+  LiquidatedTrove,
+  PendingLiquidationIndex,
+  RecoveryModeEpisode,
   Redemption,
+  RedemptionImpact,
+  PendingRedemptionIndex,
+  BaseRateUpdate,
   ProtocolStats
 } from "../../generated/schema"
 import {
-  createUniversalTransaction,
-  ensureAccount,
   TX_SOURCE_CONTRACT_EVENT,
   TX_CATEGORY_TROVE_OPERATION,
   TX_CATEGORY_LIQUIDATION, 
@@ -30,8 +40,13 @@ import {
   ZERO_BI,
   ZERO_BD,
   ONE_BD,
-  GLOBAL_STATS_ID
+  GLOBAL_STATS_ID,
+  TROVE_MANAGER_OPERATIONS,
+  PENDING_REDEMPTION_INDEX_ID,
+  PENDING_LIQUIDATION_INDEX_ID,
+  RISK_LEVEL_UNKNOWN
 } from "../utils/constants"
+import { createUniversalTransaction, ensureAccount } from "../core/universal-transaction"
 import {
   calculateCollateralRatio,
   calculateVolumeRisk,
@@ -41,17 +56,75 @@ import {
   validateNonNegative,
   clamp
 } from "../utils/helpers"
+import { getLatestFilPrice, getLatestOracleStatus } from "../core/oracle-state"
+import { getOrCreateProtocolStats, updateTotalCollateralRatio } from "../core/protocol-stats"
+import {
+  calculateBorrowingFeeRate,
+  calculateRedemptionFeeRate,
+  getOrCreateDailyFeeStats,
+  recordDailyBaseRate
+} from "../core/fee-stats"
+import {
+  updateTrovePriceAnalytics,
+  calculateTrovePerformanceScore,
+  calculateLiquidationRiskScore,
+  generateOptimizationSuggestions,
+  syncTroveRatioBand,
+  addActiveTrove,
+  removeActiveTrove,
+  redistributeToActiveTroves
+} from "./trove-risk"
+import { linkStabilityPoolAbsorption } from "./stability-pool-absorption"
+import {
+  getOrCreateRedistributionState,
+  recordTroveRewardSnapshot,
+  updateTrovePendingRewards
+} from "./trove-rewards"
 
 /**
  * Enhanced Trove Updated handler with risk analytics
  */
 export function handleTroveUpdated(event: TroveUpdatedEvent): void {
+  let operationIndex = event.params._operation
+  let troveManagerOperation: string | null = null
+  if (operationIndex >= 0 && operationIndex < TROVE_MANAGER_OPERATIONS.length) {
+    troveManagerOperation = TROVE_MANAGER_OPERATIONS[operationIndex]
+  } else {
+    log.warning("Unknown TroveManagerOperation {} for trove {}", [
+      operationIndex.toString(),
+      event.params._borrower.toHexString()
+    ])
+  }
+
+  applyTroveUpdate(
+    event,
+    event.params._borrower,
+    event.params._debt,
+    event.params._coll,
+    event.params.stake,
+    null,
+    troveManagerOperation
+  )
+}
+
+/**
+ * Apply a TroveUpdated event from TroveManager or BorrowerOperations
+ */
+export function applyTroveUpdate(
+  event: ethereum.Event,
+  borrower: Address,
+  debt: BigInt,
+  coll: BigInt,
+  stake: BigInt,
+  borrowerOperation: string | null,
+  troveManagerOperation: string | null
+): void {
   logTransactionStart(
     "TroveUpdated",
     event.transaction.hash,
-    event.params._borrower,
-    event.params._borrower,
-    event.params._debt
+    borrower,
+    borrower,
+    debt
   )
   
   // Create universal transaction record
@@ -59,82 +132,83 @@ export function handleTroveUpdated(event: TroveUpdatedEvent): void {
     event.transaction.hash,
     event.block.number,
     event.block.timestamp,
-    event.params._borrower,
-    event.params._borrower, // Trove operations are self-transactions
-    event.params._debt,
+    borrower,
+    borrower, // Trove operations are self-transactions
+    debt,
     TX_SOURCE_CONTRACT_EVENT,
     TX_CATEGORY_TROVE_OPERATION,
     ECOSYSTEM_PROTOCOL_NATIVE,
     event.logIndex,
-    event.transaction.gasUsed,
+    null, // Gas used is only available from the receipt
     event.transaction.gasPrice,
     true,
     null
   )
   
   // Ensure borrower account exists
-  let account = ensureAccount(event.params._borrower)
+  let account = ensureAccount(borrower)
   
-  // Load or create trove
-  let trove = Trove.load(event.params._borrower)
+  // Load or create trove (troves opened via BorrowerOperations already exist from TroveCreated)
+  let trove = Trove.load(borrower)
   let isNewTrove = trove == null
   
   if (trove == null) {
-    trove = new Trove(event.params._borrower)
-    trove.owner = event.params._borrower
-    trove.openedAtBlock = event.block.number
-    trove.openedAtTimestamp = event.block.timestamp
-    
-    // Initialize lifetime metrics
-    trove.totalBorrowed = ZERO_BI
-    trove.totalRepaid = ZERO_BI
-    trove.totalCollateralAdded = ZERO_BI
-    trove.totalCollateralWithdrawn = ZERO_BI
-    trove.borrowingFeesPaid = ZERO_BI
-    trove.operationCount = ZERO_BI
-    
-    // Initialize performance metrics
-    trove.averageCollateralRatio = ZERO_BD
-    trove.lowestCollateralRatio = BigDecimal.fromString("99999")
-    trove.riskEvents = ZERO_BI
-    trove.performanceScore = BigDecimal.fromString("100") // Start with perfect score
+    trove = createTrove(borrower, event.block.number, event.block.timestamp)
   }
   
   // Store previous values for comparison (FIXED: track status too)
-  let previousCollateral = trove.collateral || ZERO_BI
-  let previousDebt = trove.debt || ZERO_BI
-  let previousStatus = trove.status || "ACTIVE"  // Track previous status
+  let previousCollateral = trove.collateral
+  let previousDebt = trove.debt
+  let previousEntireCollateral = trove.entireCollateral
+  let previousEntireDebt = trove.entireDebt
+  let previousStatus = isNewTrove ? "NONE" : trove.status  // New troves were not active before
 
   // Update current state
-  trove.collateral = event.params._coll
-  trove.debt = event.params._debt
-  trove.stake = event.params._stake
+  trove.collateral = coll
+  trove.debt = debt
+  trove.stake = stake
   trove.lastUpdateBlock = event.block.number
   trove.lastUpdateTimestamp = event.block.timestamp
 
   // Calculate days open
   trove.daysOpen = event.block.timestamp.minus(trove.openedAtTimestamp).div(BigInt.fromI32(86400))
 
-  // Determine trove status based on debt
-  if (event.params._debt.equals(ZERO_BI)) {
-    trove.status = "CLOSED_BY_OWNER"
+  // Determine trove status based on debt and the operation that emptied it
+  if (debt.equals(ZERO_BI)) {
+    trove.status = getClosedTroveStatus(troveManagerOperation)
     trove.closedAtBlock = event.block.number
     trove.closedAtTimestamp = event.block.timestamp
   } else {
     trove.status = "ACTIVE"
   }
   
+  // Rewards are applied on every update, so the trove restarts from the current L-terms
+  let rewards = getOrCreateRedistributionState()
+  recordTroveRewardSnapshot(trove as Trove, rewards, event.transaction.hash)
+  updateTrovePendingRewards(trove as Trove, rewards)
+  
   // Calculate enhanced metrics
   updateTroveAnalytics(trove, previousCollateral, previousDebt, event.block.timestamp)
   
   // Create operation record
-  createTroveOperation(
+  let operation = createTroveOperation(
     event,
     trove as Trove,
     previousCollateral,
     previousDebt,
+    borrowerOperation,
+    troveManagerOperation,
     universalTx
   )
+  trove.lastOperation = operation.id
+  
+  // Attribute redemptions to the troves they hit
+  if (troveManagerOperation != null && troveManagerOperation! == "REDEEM_COLLATERAL") {
+    recordRedemptionImpact(event, trove as Trove, previousCollateral, previousDebt)
+  }
+  
+  // Move the trove between ratio bands, and with them risk buckets
+  syncTroveRatioBand(trove as Trove, event.block.timestamp)
   
   trove.save()
 
@@ -144,11 +218,184 @@ export function handleTroveUpdated(event: TroveUpdatedEvent): void {
     previousStatus,
     previousDebt,
     previousCollateral,
+    previousEntireDebt,
+    previousEntireCollateral,
     isNewTrove,
+    event.block.number,
     event.block.timestamp
   )
   
-  logTransactionComplete("TroveUpdated", event.params._borrower.toHexString())
+  logTransactionComplete("TroveUpdated", borrower.toHexString())
+}
+
+/**
+ * Create a trove entity with zeroed state
+ */
+export function createTrove(borrower: Address, blockNumber: BigInt, timestamp: BigInt): Trove {
+  let trove = new Trove(borrower)
+  trove.owner = borrower
+  trove.openedAtBlock = blockNumber
+  trove.openedAtTimestamp = timestamp
+  trove.lastUpdateBlock = blockNumber
+  trove.lastUpdateTimestamp = timestamp
+  trove.daysOpen = ZERO_BI
+  trove.status = "ACTIVE"
+  trove.collateral = ZERO_BI
+  trove.debt = ZERO_BI
+  trove.stake = ZERO_BI
+  trove.rewardSnapshotFIL = ZERO_BI
+  trove.rewardSnapshotDebt = ZERO_BI
+  trove.pendingCollateralReward = ZERO_BI
+  trove.pendingDebtReward = ZERO_BI
+  trove.entireCollateral = ZERO_BI
+  trove.entireDebt = ZERO_BI
+  
+  // Initialize lifetime metrics
+  trove.totalBorrowed = ZERO_BI
+  trove.totalRepaid = ZERO_BI
+  trove.totalCollateralAdded = ZERO_BI
+  trove.totalCollateralWithdrawn = ZERO_BI
+  trove.borrowingFeesPaid = ZERO_BI
+  trove.totalDebtRedeemed = ZERO_BI
+  trove.totalCollateralRedeemed = ZERO_BI
+  trove.operationCount = ZERO_BI
+  
+  // Initialize performance metrics
+  trove.averageCollateralRatio = ZERO_BD
+  trove.lowestCollateralRatio = BigDecimal.fromString("99999")
+  trove.riskEvents = ZERO_BI
+  trove.performanceScore = BigDecimal.fromString("100") // Start with perfect score
+
+  // Price-dependent figures stay unpriced until an oracle price is known
+  trove.collateralRatio = ZERO_BD
+  trove.healthScore = ZERO_BD
+  trove.riskLevel = RISK_LEVEL_UNKNOWN
+  trove.liquidationPrice = ZERO_BD
+  trove.safetyMargin = ZERO_BD
+  trove.liquidationRiskScore = ZERO_BD
+  trove.optimizationSuggestions = []
+  trove.priceUsed = ZERO_BI
+  trove.pricedAtTimestamp = ZERO_BI
+  trove.ratioBandDebt = ZERO_BI
+  trove.ratioBandCollateral = ZERO_BI
+  return trove
+}
+
+/**
+ * Status of a trove whose debt dropped to zero
+ */
+function getClosedTroveStatus(troveManagerOperation: string | null): string {
+  if (troveManagerOperation == null) return "CLOSED_BY_OWNER"
+  if (troveManagerOperation! == "REDEEM_COLLATERAL") return "CLOSED_BY_REDEMPTION"
+  if (troveManagerOperation! == "LIQUIDATE_IN_NORMAL_MODE" || troveManagerOperation! == "LIQUIDATE_IN_RECOVERY_MODE") {
+    return "CLOSED_BY_LIQUIDATION"
+  }
+  return "CLOSED_BY_OWNER"
+}
+
+/**
+ * Record one trove's share of a redemption
+ * The Redemption event comes after its TroveUpdated events, so the impact is queued until then
+ * A closed trove's gas compensation and surplus are only known from the Redemption totals,
+ * so its figures are provisional and its trove totals are left until settleFullRedemptions
+ */
+function recordRedemptionImpact(
+  event: ethereum.Event,
+  trove: Trove,
+  previousCollateral: BigInt,
+  previousDebt: BigInt
+): void {
+  let impactId = event.transaction.hash.concatI32(event.logIndex.toI32())
+  let impact = new RedemptionImpact(impactId)
+  impact.timestamp = event.block.timestamp
+  impact.trove = trove.id
+  impact.borrower = trove.owner
+  impact.debtBefore = previousDebt
+  impact.debtAfter = trove.debt
+  impact.collateralBefore = previousCollateral
+  impact.collateralAfter = trove.collateral
+  impact.debtRedeemed = previousDebt.minus(trove.debt)
+  impact.collateralRedeemed = previousCollateral.minus(trove.collateral)
+  impact.debtGasCompensation = ZERO_BI
+  impact.collateralSurplus = ZERO_BI
+  impact.isFullRedemption = trove.status == "CLOSED_BY_REDEMPTION"
+  impact.blockNumber = event.block.number
+  impact.transactionHash = event.transaction.hash
+  impact.save()
+
+  if (!impact.isFullRedemption) {
+    trove.totalDebtRedeemed = trove.totalDebtRedeemed.plus(impact.debtRedeemed)
+    trove.totalCollateralRedeemed = trove.totalCollateralRedeemed.plus(impact.collateralRedeemed)
+  }
+
+  let pending = getOrCreatePendingRedemptionIndex()
+  let impacts = pending.impacts
+  let pendingTx = pending.transactionHash
+  if (pendingTx === null || !pendingTx.equals(event.transaction.hash)) {
+    impacts = []
+  }
+  impacts.push(impactId)
+  pending.transactionHash = event.transaction.hash
+  pending.impacts = impacts
+  pending.save()
+}
+
+/**
+ * Split a redemption's totals over the troves it closed and credit their trove totals
+ * Partial impacts are exact, so what remains of the USDFC and FIL totals belongs to the closed troves.
+ * Each closed trove had its gas compensation cancelled rather than redeemed (the same amount for every
+ * trove), and every trove was redeemed at one price, so closed troves drew FIL in proportion to their
+ * redeemed debt; the rest of their collateral is surplus left in CollSurplusPool
+ */
+function settleFullRedemptions(impacts: RedemptionImpact[], debtRedeemed: BigInt, filDrawn: BigInt): void {
+  let fullCount = 0
+  let fullDebtBefore = ZERO_BI
+  let fullDebtRedeemed = debtRedeemed
+  let fullFILDrawn = filDrawn
+  for (let i = 0; i < impacts.length; i++) {
+    let impact = impacts[i]
+    if (impact.isFullRedemption) {
+      fullCount++
+      fullDebtBefore = fullDebtBefore.plus(impact.debtBefore)
+    } else {
+      fullDebtRedeemed = fullDebtRedeemed.minus(impact.debtRedeemed)
+      fullFILDrawn = fullFILDrawn.minus(impact.collateralRedeemed)
+    }
+  }
+  if (fullCount == 0) return
+
+  let gasCompensation = fullDebtBefore.minus(fullDebtRedeemed).div(BigInt.fromI32(fullCount))
+  if (gasCompensation.lt(ZERO_BI)) gasCompensation = ZERO_BI
+
+  for (let i = 0; i < impacts.length; i++) {
+    let impact = impacts[i]
+    if (!impact.isFullRedemption) continue
+
+    impact.debtGasCompensation = gasCompensation
+    impact.debtRedeemed = impact.debtBefore.minus(gasCompensation)
+    impact.collateralRedeemed = fullDebtRedeemed.gt(ZERO_BI)
+      ? fullFILDrawn.times(impact.debtRedeemed).div(fullDebtRedeemed)
+      : ZERO_BI
+    impact.collateralSurplus = impact.collateralBefore.minus(impact.collateralRedeemed)
+
+    let trove = Trove.load(impact.trove)
+    if (trove == null) continue
+    trove.totalDebtRedeemed = trove.totalDebtRedeemed.plus(impact.debtRedeemed)
+    trove.totalCollateralRedeemed = trove.totalCollateralRedeemed.plus(impact.collateralRedeemed)
+    trove.save()
+  }
+}
+
+/**
+ * Load the pending redemption index, creating it on first use
+ */
+function getOrCreatePendingRedemptionIndex(): PendingRedemptionIndex {
+  let pending = PendingRedemptionIndex.load(PENDING_REDEMPTION_INDEX_ID)
+  if (pending == null) {
+    pending = new PendingRedemptionIndex(PENDING_REDEMPTION_INDEX_ID)
+    pending.impacts = []
+  }
+  return pending
 }
 
 /**
@@ -175,7 +422,7 @@ export function handleTroveLiquidated(event: TroveLiquidatedEvent): void {
     TX_CATEGORY_LIQUIDATION,
     ECOSYSTEM_PROTOCOL_NATIVE,
     event.logIndex,
-    event.transaction.gasUsed,
+    null, // Gas used is only available from the receipt
     event.transaction.gasPrice,
     true,
     null
@@ -188,11 +435,18 @@ export function handleTroveLiquidated(event: TroveLiquidatedEvent): void {
     let previousStatus = trove.status
     let previousDebt = trove.debt
     let previousCollateral = trove.collateral
+    let previousEntireDebt = trove.entireDebt
+    let previousEntireCollateral = trove.entireCollateral
 
     trove.status = "CLOSED_BY_LIQUIDATION"
     trove.closedAtBlock = event.block.number
     trove.closedAtTimestamp = event.block.timestamp
 
+    // Closed troves no longer accrue redistribution rewards
+    let rewards = getOrCreateRedistributionState()
+    recordTroveRewardSnapshot(trove as Trove, rewards, event.transaction.hash)
+    updateTrovePendingRewards(trove as Trove, rewards)
+
     // Record liquidation as risk event
     trove.riskEvents = trove.riskEvents.plus(BigInt.fromI32(1))
 
@@ -200,15 +454,23 @@ export function handleTroveLiquidated(event: TroveLiquidatedEvent): void {
     trove.performanceScore = trove.performanceScore.times(BigDecimal.fromString("0.5")) // 50% penalty for liquidation
     trove.performanceScore = clamp(trove.performanceScore, ZERO_BD, BigDecimal.fromString("100"))
 
+    // Liquidated troves leave their ratio band
+    syncTroveRatioBand(trove as Trove, event.block.timestamp)
+
     trove.save()
 
+    recordLiquidatedTrove(event, trove as Trove)
+
     // FIXED: Update protocol stats with proper tracking
     updateProtocolStatsForTrove(
       trove as Trove,
       previousStatus,
       previousDebt,
       previousCollateral,
+      previousEntireDebt,
+      previousEntireCollateral,
       false,  // not a new trove
+      event.block.number,
       event.block.timestamp
     )
   }
@@ -231,30 +493,154 @@ export function handleLiquidation(event: LiquidationEvent): void {
   // Create liquidation record
   let liquidationId = event.transaction.hash.concatI32(event.logIndex.toI32())
   let liquidation = new Liquidation(liquidationId)
+  let liquidator = ensureAccount(event.transaction.from)
   
   liquidation.timestamp = event.block.timestamp
+  liquidation.liquidator = liquidator.id
+  liquidation.mode = "NORMAL"
+  liquidation.troveCount = 0
   liquidation.collateralLiquidated = event.params._liquidatedColl
   liquidation.debtLiquidated = event.params._liquidatedDebt
   liquidation.collateralGasCompensation = event.params._collGasCompensation
-  liquidation.debtGasCompensation = event.params._LUSDGasCompensation
+  liquidation.debtGasCompensation = event.params._debtGasCompensation
+  liquidation.oracleStatus = getLatestOracleStatus()
   liquidation.blockNumber = event.block.number
   liquidation.transactionHash = event.transaction.hash
   
-  // Calculate liquidation impact metrics
-  let liquidationRatio = calculateCollateralRatio(event.params._liquidatedColl, event.params._liquidatedDebt)
+  // Link the troves closed earlier in this transaction
+  linkLiquidatedTroves(liquidation, event.transaction.hash)
+  
+  // Tie the liquidation to the Recovery Mode episode it happened in
+  let stats = getOrCreateProtocolStats()
+  liquidation.duringRecoveryMode = liquidation.mode == "RECOVERY" || stats.recoveryMode
+  if (liquidation.duringRecoveryMode) {
+    linkRecoveryModeEpisode(liquidation, stats)
+  }
   
   liquidation.save()
   
+  // The Stability Pool's share was offset earlier in this transaction
+  linkStabilityPoolAbsorption(liquidation)
+  
   // Update protocol stats
-  updateProtocolStatsForLiquidation(
-    event.params._liquidatedDebt,
-    event.params._liquidatedColl,
-    event.block.timestamp
-  )
+  updateProtocolStatsForLiquidation(stats, event.block.timestamp)
   
   logTransactionComplete("Liquidation", liquidationId.toHexString())
 }
 
+/**
+ * Record a trove closed by liquidation
+ * The Liquidation event comes after its TroveLiquidated events, so the record is queued until then
+ */
+function recordLiquidatedTrove(event: TroveLiquidatedEvent, trove: Trove): void {
+  let recordId = event.transaction.hash.concatI32(event.logIndex.toI32())
+  let record = new LiquidatedTrove(recordId)
+  record.timestamp = event.block.timestamp
+  record.trove = trove.id
+  record.borrower = trove.owner
+  record.liquidator = ensureAccount(event.transaction.from).id
+  record.mode = event.params._operation == 2 ? "RECOVERY" : "NORMAL" // liquidateInRecoveryMode
+  record.debtSeized = event.params._debt
+  record.collateralSeized = event.params._coll
+  record.collateralGasCompensation = ZERO_BI
+  record.debtGasCompensation = ZERO_BI
+  record.blockNumber = event.block.number
+  record.transactionHash = event.transaction.hash
+  record.save()
+
+  let pending = getOrCreatePendingLiquidationIndex()
+  let troves = pending.troves
+  let pendingTx = pending.transactionHash
+  if (pendingTx === null || !pendingTx.equals(event.transaction.hash)) {
+    troves = []
+  }
+  troves.push(recordId)
+  pending.transactionHash = event.transaction.hash
+  pending.troves = troves
+  pending.save()
+}
+
+/**
+ * Link the queued liquidated troves to their batch and split its gas compensation between them
+ */
+function linkLiquidatedTroves(liquidation: Liquidation, txHash: Bytes): void {
+  let pending = getOrCreatePendingLiquidationIndex()
+  let pendingTx = pending.transactionHash
+  if (pendingTx === null || !pendingTx.equals(txHash)) return
+
+  let records: LiquidatedTrove[] = []
+  let totalCollateral = ZERO_BI
+  let ids = pending.troves
+  for (let i = 0; i < ids.length; i++) {
+    let record = LiquidatedTrove.load(ids[i])
+    if (record == null) continue
+    records.push(record)
+    totalCollateral = totalCollateral.plus(record.collateralSeized)
+  }
+
+  let troveCount = BigInt.fromI32(records.length)
+  for (let i = 0; i < records.length; i++) {
+    let record = records[i]
+    record.liquidation = liquidation.id
+    if (totalCollateral.gt(ZERO_BI)) {
+      record.collateralGasCompensation = liquidation.collateralGasCompensation
+        .times(record.collateralSeized)
+        .div(totalCollateral)
+    }
+    record.debtGasCompensation = liquidation.debtGasCompensation.div(troveCount)
+    record.save()
+
+    if (record.mode == "RECOVERY") {
+      liquidation.mode = "RECOVERY"
+    }
+
+    let trove = Trove.load(record.trove)
+    if (trove != null) {
+      trove.liquidation = liquidation.id
+      trove.save()
+    }
+  }
+
+  liquidation.troveCount = records.length
+  if (records.length == 1) {
+    liquidation.trove = records[0].trove
+    liquidation.borrower = records[0].borrower
+  }
+
+  pending.troves = []
+  pending.save()
+}
+
+/**
+ * Link a Recovery Mode liquidation to the current episode, or to one that ended in this block
+ * (the liquidations themselves can lift the TCR back above 150%)
+ */
+function linkRecoveryModeEpisode(liquidation: Liquidation, stats: ProtocolStats): void {
+  let episodeId = stats.latestRecoveryModeEpisode
+  if (episodeId == null) return
+  let episode = RecoveryModeEpisode.load(episodeId!)
+  if (episode == null) return
+
+  let endBlock = episode.endBlock
+  if (episode.isActive || (endBlock !== null && endBlock.equals(liquidation.blockNumber))) {
+    liquidation.recoveryModeEpisode = episode.id
+    episode.liquidationCount = episode.liquidationCount.plus(BigInt.fromI32(1))
+    episode.save()
+  }
+}
+
+/**
+ * Load the pending liquidation index, creating it on first use
+ */
+function getOrCreatePendingLiquidationIndex(): PendingLiquidationIndex {
+  let pending = PendingLiquidationIndex.load(PENDING_LIQUIDATION_INDEX_ID)
+  if (pending == null) {
+    pending = new PendingLiquidationIndex(PENDING_LIQUIDATION_INDEX_ID)
+    pending.troves = []
+  }
+  return pending
+}
+
 /**
  * Enhanced Redemption handler with market analysis
  */
@@ -264,32 +650,162 @@ export function handleRedemption(event: RedemptionEvent): void {
     event.transaction.hash,
     Bytes.fromHexString("0x0000000000000000000000000000000000000000") as Bytes,
     Bytes.fromHexString("0x0000000000000000000000000000000000000000") as Bytes,
-    event.params._attemptedLUSDAmount
+    event.params._attemptedDebtTokenAmount
   )
   
   // Create redemption record
   let redemptionId = event.transaction.hash.concatI32(event.logIndex.toI32())
   let redemption = new Redemption(redemptionId)
-  
+  let redeemer = ensureAccount(event.transaction.from)
+  let filFee = event.params._FILFee
+  let filSent = event.params._FILSent
+
   redemption.timestamp = event.block.timestamp
-  redemption.usdfcRedeemed = event.params._attemptedLUSDAmount
-  redemption.filReceived = event.params._actualLUSDAmount // Note: This might need adjustment based on actual event params
-  redemption.redemptionFee = event.params._LUSDFee
+  redemption.redeemer = redeemer.id
+  redemption.usdfcAttempted = event.params._attemptedDebtTokenAmount
+  redemption.usdfcRedeemed = event.params._actualDebtTokenAmount
+  redemption.filDrawn = filSent
+  redemption.filReceived = filSent.minus(filFee)
+  redemption.redemptionFee = filFee
+  redemption.feePercentage = filSent.gt(ZERO_BI)
+    ? filFee.toBigDecimal().div(filSent.toBigDecimal()).times(BigDecimal.fromString("100"))
+    : ZERO_BD
+  redemption.filPrice = getLatestFilPrice()
+  redemption.troveCount = 0
+  redemption.fullRedemptionCount = 0
+
+  // Link the impacts queued by this transaction's redeemCollateral updates
+  let pending = getOrCreatePendingRedemptionIndex()
+  let pendingTx = pending.transactionHash
+  if (pendingTx !== null && pendingTx.equals(event.transaction.hash)) {
+    let impacts: RedemptionImpact[] = []
+    let pendingIds = pending.impacts
+    for (let i = 0; i < pendingIds.length; i++) {
+      let impact = RedemptionImpact.load(pendingIds[i])
+      if (impact == null) continue
+      impact.redemption = redemptionId
+      impacts.push(impact)
+      redemption.troveCount = redemption.troveCount + 1
+      if (impact.isFullRedemption) {
+        redemption.fullRedemptionCount = redemption.fullRedemptionCount + 1
+      }
+    }
+    settleFullRedemptions(impacts, event.params._actualDebtTokenAmount, filSent)
+    for (let i = 0; i < impacts.length; i++) {
+      impacts[i].save()
+    }
+    pending.impacts = []
+    pending.save()
+  }
   redemption.blockNumber = event.block.number
   redemption.transactionHash = event.transaction.hash
-  
+
   redemption.save()
-  
+
   // Update protocol stats
   updateProtocolStatsForRedemption(
-    event.params._attemptedLUSDAmount,
-    event.params._LUSDFee,
+    event.params._actualDebtTokenAmount,
+    filFee,
     event.block.timestamp
   )
   
   logTransactionComplete("Redemption", redemptionId.toHexString())
 }
 
+/**
+ * Base Rate Updated handler - records the base rate and the fees it implies
+ */
+export function handleBaseRateUpdated(event: BaseRateUpdatedEvent): void {
+  let baseRate = event.params._baseRate
+  let stats = getOrCreateProtocolStats()
+
+  let updateId = event.transaction.hash.concatI32(event.logIndex.toI32())
+  let update = new BaseRateUpdate(updateId)
+  update.timestamp = event.block.timestamp
+  update.baseRate = baseRate
+  update.previousBaseRate = stats.baseRate
+  update.borrowingFeeRate = calculateBorrowingFeeRate(baseRate)
+  update.redemptionFeeRate = calculateRedemptionFeeRate(baseRate)
+  update.lastFeeOperationTime = stats.lastFeeOperationTime
+  update.blockNumber = event.block.number
+  update.transactionHash = event.transaction.hash
+  update.save()
+
+  let daily = getOrCreateDailyFeeStats(event.block.timestamp, stats.baseRate)
+  recordDailyBaseRate(daily, baseRate)
+  daily.save()
+
+  stats.baseRate = baseRate
+  stats.borrowingFeeRate = update.borrowingFeeRate
+  stats.redemptionFeeRate = update.redemptionFeeRate
+  stats.lastUpdateBlock = event.block.number
+  stats.lastUpdateTimestamp = event.block.timestamp
+  stats.save()
+}
+
+/**
+ * Last Fee Operation Time handler - the base rate decays from this point
+ */
+export function handleLastFeeOpTimeUpdated(event: LastFeeOpTimeUpdatedEvent): void {
+  let stats = getOrCreateProtocolStats()
+  stats.lastFeeOperationTime = event.params._lastFeeOpTime
+  stats.lastUpdateBlock = event.block.number
+  stats.lastUpdateTimestamp = event.block.timestamp
+  stats.save()
+}
+
+/**
+ * L-Terms Updated handler - a liquidation was redistributed to the active troves
+ */
+export function handleLTermsUpdated(event: LTermsUpdatedEvent): void {
+  let state = getOrCreateRedistributionState()
+  state.L_FIL = event.params._L_FIL
+  state.L_Debt = event.params._L_Debt
+  state.redistributionCount = state.redistributionCount.plus(BigInt.fromI32(1))
+  state.lastUpdateBlock = event.block.number
+  state.lastUpdateTimestamp = event.block.timestamp
+  state.save()
+
+  // Every active trove's pending rewards (and so its ratio) moved
+  redistributeToActiveTroves(state, getLatestFilPrice(), event.block.number, event.block.timestamp)
+}
+
+/**
+ * Trove Snapshots Updated handler - held until the TroveUpdated it belongs to
+ */
+export function handleTroveSnapshotsUpdated(event: TroveSnapshotsUpdatedEvent): void {
+  let state = getOrCreateRedistributionState()
+  state.pendingSnapshotFIL = event.params._L_FIL
+  state.pendingSnapshotDebt = event.params._L_Debt
+  state.pendingSnapshotTransaction = event.transaction.hash
+  state.lastUpdateBlock = event.block.number
+  state.lastUpdateTimestamp = event.block.timestamp
+  state.save()
+}
+
+/**
+ * System Snapshots Updated handler - stake and collateral totals after a liquidation
+ */
+export function handleSystemSnapshotsUpdated(event: SystemSnapshotsUpdatedEvent): void {
+  let state = getOrCreateRedistributionState()
+  state.totalStakesSnapshot = event.params._totalStakesSnapshot
+  state.totalCollateralSnapshot = event.params._totalCollateralSnapshot
+  state.lastUpdateBlock = event.block.number
+  state.lastUpdateTimestamp = event.block.timestamp
+  state.save()
+}
+
+/**
+ * Total Stakes Updated handler
+ */
+export function handleTotalStakesUpdated(event: TotalStakesUpdatedEvent): void {
+  let state = getOrCreateRedistributionState()
+  state.totalStakes = event.params._newTotalStakes
+  state.lastUpdateBlock = event.block.number
+  state.lastUpdateTimestamp = event.block.timestamp
+  state.save()
+}
+
 /**
  * Update trove analytics with enhanced metrics
  */
@@ -300,35 +816,12 @@ function updateTroveAnalytics(
   timestamp: BigInt
 ): void {
   
-  // Calculate current collateral ratio
-  trove.collateralRatio = calculateCollateralRatio(trove.collateral, trove.debt)
-  
-  // Update lowest collateral ratio
-  if (trove.collateralRatio.lt(trove.lowestCollateralRatio)) {
-    trove.lowestCollateralRatio = trove.collateralRatio
-  }
-  
-  // Calculate health score (0-100, higher is better)
-  trove.healthScore = calculateTroveHealthScore(trove.collateralRatio)
-  
-  // Classify risk level
-  trove.riskLevel = classifyTroveRiskLevel(trove.collateralRatio)
-  
-  // Calculate liquidation price (price at which CR = 110%)
-  if (trove.debt.gt(ZERO_BI)) {
-    let minCR = BigDecimal.fromString("1.1") // 110%
-    trove.liquidationPrice = trove.debt.toBigDecimal().times(minCR).div(trove.collateral.toBigDecimal())
+  // Price the trove with the last good oracle price
+  let price = getLatestFilPrice()
+  if (price.gt(ZERO_BI)) {
+    updateTrovePriceAnalytics(trove, price, timestamp)
   } else {
-    trove.liquidationPrice = ZERO_BD
-  }
-  
-  // Calculate safety margin (how far from liquidation)
-  let liquidationCR = BigDecimal.fromString("110")
-  if (trove.collateralRatio.gt(liquidationCR)) {
-    trove.safetyMargin = trove.collateralRatio.minus(liquidationCR)
-  } else {
-    trove.safetyMargin = ZERO_BD
-    trove.riskEvents = trove.riskEvents.plus(BigInt.fromI32(1)) // Near liquidation event
+    log.warning("No FIL price available yet, trove {} left unpriced", [trove.id.toHexString()])
   }
   
   // Update lifetime metrics
@@ -350,7 +843,7 @@ function updateTroveAnalytics(
   trove.operationCount = trove.operationCount.plus(BigInt.fromI32(1))
   
   // Update average collateral ratio (running average)
-  if (trove.operationCount.gt(ZERO_BI)) {
+  if (trove.operationCount.gt(ZERO_BI) && trove.priceUsed.gt(ZERO_BI)) {
     let weight = ONE_BD.div(trove.operationCount.toBigDecimal())
     trove.averageCollateralRatio = trove.averageCollateralRatio
       .times(ONE_BD.minus(weight))
@@ -367,160 +860,32 @@ function updateTroveAnalytics(
   trove.optimizationSuggestions = generateOptimizationSuggestions(trove)
 }
 
-/**
- * Calculate trove health score (0-100)
- */
-function calculateTroveHealthScore(collateralRatio: BigDecimal): BigDecimal {
-  if (collateralRatio.lt(BigDecimal.fromString("110"))) {
-    return ZERO_BD // Critical - at or below liquidation threshold
-  } else if (collateralRatio.lt(BigDecimal.fromString("125"))) {
-    return BigDecimal.fromString("25") // Poor - very risky
-  } else if (collateralRatio.lt(BigDecimal.fromString("150"))) {
-    return BigDecimal.fromString("50") // Fair - moderate risk
-  } else if (collateralRatio.lt(BigDecimal.fromString("200"))) {
-    return BigDecimal.fromString("75") // Good - low risk
-  } else {
-    return BigDecimal.fromString("100") // Excellent - very safe
-  }
-}
-
-/**
- * Classify trove risk level
- */
-function classifyTroveRiskLevel(collateralRatio: BigDecimal): string {
-  if (collateralRatio.gt(BigDecimal.fromString("200"))) {
-    return "VERY_LOW"
-  } else if (collateralRatio.gt(BigDecimal.fromString("150"))) {
-    return "LOW"
-  } else if (collateralRatio.gt(BigDecimal.fromString("125"))) {
-    return "MEDIUM"
-  } else if (collateralRatio.gt(BigDecimal.fromString("110"))) {
-    return "HIGH"
-  } else if (collateralRatio.gt(BigDecimal.fromString("105"))) {
-    return "VERY_HIGH"
-  } else {
-    return "CRITICAL"
-  }
-}
-
-/**
- * Calculate comprehensive trove performance score
- */
-function calculateTrovePerformanceScore(trove: Trove): BigDecimal {
-  let scores: BigDecimal[] = []
-  let weights: BigDecimal[] = []
-  
-  // Health score (40% weight)
-  scores.push(trove.healthScore)
-  weights.push(BigDecimal.fromString("0.4"))
-  
-  // Stability score based on lowest CR (30% weight)
-  let stabilityScore = trove.lowestCollateralRatio.gt(BigDecimal.fromString("150")) ? 
-    BigDecimal.fromString("100") : 
-    trove.lowestCollateralRatio.div(BigDecimal.fromString("1.5"))
-  scores.push(clamp(stabilityScore, ZERO_BD, BigDecimal.fromString("100")))
-  weights.push(BigDecimal.fromString("0.3"))
-  
-  // Risk events penalty (20% weight)
-  let riskPenalty = trove.riskEvents.toBigDecimal().times(BigDecimal.fromString("10"))
-  let riskScore = clamp(BigDecimal.fromString("100").minus(riskPenalty), ZERO_BD, BigDecimal.fromString("100"))
-  scores.push(riskScore)
-  weights.push(BigDecimal.fromString("0.2"))
-  
-  // Age bonus (10% weight)
-  let ageBonus = clamp(trove.daysOpen.toBigDecimal().div(BigDecimal.fromString("30")), ZERO_BD, BigDecimal.fromString("100"))
-  scores.push(ageBonus)
-  weights.push(BigDecimal.fromString("0.1"))
-  
-  // Calculate weighted average
-  let totalWeightedScore = ZERO_BD
-  let totalWeight = ZERO_BD
-  
-  for (let i = 0; i < scores.length; i++) {
-    totalWeightedScore = totalWeightedScore.plus(scores[i].times(weights[i]))
-    totalWeight = totalWeight.plus(weights[i])
-  }
-  
-  return totalWeight.gt(ZERO_BD) ? totalWeightedScore.div(totalWeight) : BigDecimal.fromString("50")
-}
-
-/**
- * Calculate ML-based liquidation risk score
- */
-function calculateLiquidationRiskScore(trove: Trove): BigDecimal {
-  // Simplified ML model - would be enhanced with more sophisticated algorithms
-  let riskFactors: BigDecimal[] = []
-  
-  // Current CR factor
-  let crRisk = BigDecimal.fromString("110").div(trove.collateralRatio.plus(BigDecimal.fromString("1")))
-  riskFactors.push(clamp(crRisk.times(BigDecimal.fromString("100")), ZERO_BD, BigDecimal.fromString("100")))
-  
-  // Historical risk events
-  let eventRisk = trove.riskEvents.toBigDecimal().times(BigDecimal.fromString("15"))
-  riskFactors.push(clamp(eventRisk, ZERO_BD, BigDecimal.fromString("100")))
-  
-  // Volatility risk (based on operations frequency)
-  let volatilityRisk = trove.operationCount.gt(ZERO_BI) ? 
-    trove.operationCount.toBigDecimal().div(trove.daysOpen.plus(BigInt.fromI32(1)).toBigDecimal()).times(BigDecimal.fromString("10")) :
-    ZERO_BD
-  riskFactors.push(clamp(volatilityRisk, ZERO_BD, BigDecimal.fromString("100")))
-  
-  // Calculate average risk score
-  let totalRisk = ZERO_BD
-  for (let i = 0; i < riskFactors.length; i++) {
-    totalRisk = totalRisk.plus(riskFactors[i])
-  }
-  
-  return riskFactors.length > 0 ? totalRisk.div(BigDecimal.fromString(riskFactors.length.toString())) : BigDecimal.fromString("50")
-}
-
-/**
- * Generate optimization suggestions
- */
-function generateOptimizationSuggestions(trove: Trove): string[] {
-  let suggestions: string[] = []
-  
-  if (trove.collateralRatio.lt(BigDecimal.fromString("150"))) {
-    suggestions.push("Consider adding more collateral to improve safety margin")
-  }
-  
-  if (trove.collateralRatio.gt(BigDecimal.fromString("300"))) {
-    suggestions.push("Consider optimizing capital efficiency by borrowing more or withdrawing collateral")
-  }
-  
-  if (trove.riskEvents.gt(BigInt.fromI32(2))) {
-    suggestions.push("Consider maintaining higher collateral ratios to avoid future risk events")
-  }
-  
-  if (trove.operationCount.gt(BigInt.fromI32(20)) && trove.daysOpen.lt(BigInt.fromI32(30))) {
-    suggestions.push("High operation frequency detected - consider longer-term position management")
-  }
-  
-  return suggestions
-}
-
 /**
  * Create trove operation record
  */
 function createTroveOperation(
-  event: TroveUpdatedEvent,
+  event: ethereum.Event,
   trove: Trove,
   previousCollateral: BigInt,
   previousDebt: BigInt,
+  borrowerOperation: string | null,
+  troveManagerOperation: string | null,
   universalTx: Transaction
-): void {
+): TroveOperation {
   
   let operationId = event.transaction.hash.concatI32(event.logIndex.toI32())
   let operation = new TroveOperation(operationId)
   
   operation.timestamp = event.block.timestamp
   operation.trove = trove.id
-  operation.collateralChange = event.params._coll.minus(previousCollateral)
-  operation.debtChange = event.params._debt.minus(previousDebt)
+  operation.borrowerOperation = borrowerOperation
+  operation.troveManagerOperation = troveManagerOperation
+  operation.collateralChange = trove.collateral.minus(previousCollateral)
+  operation.debtChange = trove.debt.minus(previousDebt)
   operation.collateralBefore = previousCollateral
-  operation.collateralAfter = event.params._coll
+  operation.collateralAfter = trove.collateral
   operation.debtBefore = previousDebt
-  operation.debtAfter = event.params._debt
+  operation.debtAfter = trove.debt
   operation.blockNumber = event.block.number
   operation.transactionHash = event.transaction.hash
   
@@ -533,6 +898,7 @@ function createTroveOperation(
   )
   
   operation.save()
+  return operation
 }
 
 /**
@@ -568,16 +934,18 @@ function classifyTroveOperationType(
 /**
  * Update protocol stats for trove operations (FIXED: proper tracking)
  */
-function updateProtocolStatsForTrove(
+export function updateProtocolStatsForTrove(
   trove: Trove,
   previousStatus: string,
   previousDebt: BigInt,
   previousCollateral: BigInt,
+  previousEntireDebt: BigInt,
+  previousEntireCollateral: BigInt,
   isNewTrove: boolean,
+  blockNumber: BigInt,
   timestamp: BigInt
 ): void {
-  let stats = ProtocolStats.load(GLOBAL_STATS_ID)
-  if (stats == null) return
+  let stats = getOrCreateProtocolStats()
 
   if (isNewTrove) {
     stats.totalTroveCount = stats.totalTroveCount.plus(BigInt.fromI32(1))
@@ -588,9 +956,11 @@ function updateProtocolStatsForTrove(
     if (trove.status == "ACTIVE" && previousStatus != "ACTIVE") {
       // Trove became active
       stats.activeTroveCount = stats.activeTroveCount.plus(BigInt.fromI32(1))
+      addActiveTrove(trove)
     } else if (previousStatus == "ACTIVE" && trove.status != "ACTIVE") {
       // Trove became inactive
       stats.activeTroveCount = stats.activeTroveCount.minus(BigInt.fromI32(1))
+      removeActiveTrove(trove)
     }
   }
 
@@ -600,7 +970,19 @@ function updateProtocolStatsForTrove(
 
   stats.totalDebt = stats.totalDebt.plus(debtChange)
   stats.totalCollateral = stats.totalCollateral.plus(collateralChange)
-  stats.lastUpdateBlock = event.block.number
+
+  // System totals count the entire debt/collateral of active troves only
+  let wasActive = previousStatus == "ACTIVE"
+  let isActive = trove.status == "ACTIVE"
+  stats.systemDebt = stats.systemDebt
+    .minus(wasActive ? previousEntireDebt : ZERO_BI)
+    .plus(isActive ? trove.entireDebt : ZERO_BI)
+  stats.systemCollateral = stats.systemCollateral
+    .minus(wasActive ? previousEntireCollateral : ZERO_BI)
+    .plus(isActive ? trove.entireCollateral : ZERO_BI)
+  updateTotalCollateralRatio(stats, getLatestFilPrice(), blockNumber, timestamp)
+
+  stats.lastUpdateBlock = blockNumber
   stats.lastUpdateTimestamp = timestamp
   
   stats.save()
@@ -609,17 +991,9 @@ function updateProtocolStatsForTrove(
 /**
  * Update protocol stats for liquidations
  */
-function updateProtocolStatsForLiquidation(
-  liquidatedDebt: BigInt,
-  liquidatedCollateral: BigInt,
-  timestamp: BigInt
-): void {
-  let stats = ProtocolStats.load(GLOBAL_STATS_ID)
-  if (stats == null) return
-  
+function updateProtocolStatsForLiquidation(stats: ProtocolStats, timestamp: BigInt): void {
+  // Debt and collateral totals already dropped with each liquidated trove's TroveUpdated
   stats.lifetimeLiquidationCount = stats.lifetimeLiquidationCount.plus(BigInt.fromI32(1))
-  stats.totalDebt = stats.totalDebt.minus(liquidatedDebt)
-  stats.totalCollateral = stats.totalCollateral.minus(liquidatedCollateral)
   stats.lastUpdateTimestamp = timestamp
   
   stats.save()
@@ -633,12 +1007,17 @@ function updateProtocolStatsForRedemption(
   fee: BigInt,
   timestamp: BigInt
 ): void {
-  let stats = ProtocolStats.load(GLOBAL_STATS_ID)
-  if (stats == null) return
-  
+  let stats = getOrCreateProtocolStats()
+
   stats.lifetimeRedemptionCount = stats.lifetimeRedemptionCount.plus(BigInt.fromI32(1))
   stats.totalRedemptionFees = stats.totalRedemptionFees.plus(fee)
   stats.lastUpdateTimestamp = timestamp
   
   stats.save()
+
+  let daily = getOrCreateDailyFeeStats(timestamp, stats.baseRate)
+  daily.redemptionCount = daily.redemptionCount.plus(BigInt.fromI32(1))
+  daily.redemptionFeesPaid = daily.redemptionFeesPaid.plus(fee)
+  daily.usdfcRedeemed = daily.usdfcRedeemed.plus(redeemedAmount)
+  daily.save()
 }
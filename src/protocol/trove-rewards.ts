@@ -0,0 +1,77 @@
+/**
+ * USDFC v0 - Trove Redistribution Rewards
+ * L-terms, per-trove reward snapshots and pending rewards from default pool redistributions
+ */
+
+import { BigInt, Bytes } from "@graphprotocol/graph-ts"
+import { Trove, RedistributionState } from "../../generated/schema"
+import {
+  ZERO_BI,
+  DECIMAL_PRECISION,
+  REDISTRIBUTION_STATE_ID
+} from "../utils/constants"
+
+/**
+ * Load the redistribution state, creating it on first use
+ */
+export function getOrCreateRedistributionState(): RedistributionState {
+  let state = RedistributionState.load(REDISTRIBUTION_STATE_ID)
+  if (state == null) {
+    state = new RedistributionState(REDISTRIBUTION_STATE_ID)
+    state.L_FIL = ZERO_BI
+    state.L_Debt = ZERO_BI
+    state.totalStakes = ZERO_BI
+    state.totalStakesSnapshot = ZERO_BI
+    state.totalCollateralSnapshot = ZERO_BI
+    state.redistributionCount = ZERO_BI
+    state.pendingSnapshotFIL = ZERO_BI
+    state.pendingSnapshotDebt = ZERO_BI
+    state.lastUpdateBlock = ZERO_BI
+    state.lastUpdateTimestamp = ZERO_BI
+  }
+  return state
+}
+
+/**
+ * Record the reward snapshot a TroveUpdated leaves behind
+ * TroveSnapshotsUpdated carries no borrower, so a snapshot seen earlier in the same transaction is used;
+ * otherwise the trove's rewards were just applied and its snapshot equals the current L-terms
+ */
+export function recordTroveRewardSnapshot(trove: Trove, state: RedistributionState, txHash: Bytes): void {
+  if (trove.status != "ACTIVE") {
+    trove.rewardSnapshotFIL = ZERO_BI
+    trove.rewardSnapshotDebt = ZERO_BI
+    return
+  }
+
+  let pendingTx = state.pendingSnapshotTransaction
+  if (pendingTx !== null && pendingTx.equals(txHash)) {
+    trove.rewardSnapshotFIL = state.pendingSnapshotFIL
+    trove.rewardSnapshotDebt = state.pendingSnapshotDebt
+  } else {
+    trove.rewardSnapshotFIL = state.L_FIL
+    trove.rewardSnapshotDebt = state.L_Debt
+  }
+}
+
+/**
+ * Recompute a trove's pending rewards and entire collateral/debt from the current L-terms
+ */
+export function updateTrovePendingRewards(trove: Trove, state: RedistributionState): void {
+  trove.pendingCollateralReward = ZERO_BI
+  trove.pendingDebtReward = ZERO_BI
+
+  if (trove.status == "ACTIVE" && trove.stake.gt(ZERO_BI)) {
+    let filPerStake = state.L_FIL.minus(trove.rewardSnapshotFIL)
+    let debtPerStake = state.L_Debt.minus(trove.rewardSnapshotDebt)
+    if (filPerStake.gt(ZERO_BI)) {
+      trove.pendingCollateralReward = trove.stake.times(filPerStake).div(DECIMAL_PRECISION)
+    }
+    if (debtPerStake.gt(ZERO_BI)) {
+      trove.pendingDebtReward = trove.stake.times(debtPerStake).div(DECIMAL_PRECISION)
+    }
+  }
+
+  trove.entireCollateral = trove.collateral.plus(trove.pendingCollateralReward)
+  trove.entireDebt = trove.debt.plus(trove.pendingDebtReward)
+}
@@ -0,0 +1,631 @@
+/**
+ * USDFC v0 - Trove Risk Analytics
+ * Price-dependent trove figures, ratio bands behind the risk buckets and the active trove list
+ */
+
+import { BigInt, BigDecimal, log } from "@graphprotocol/graph-ts"
+import {
+  Trove,
+  RiskBucket,
+  TroveRatioBand,
+  ActiveTroveIndex,
+  RedistributionState
+} from "../../generated/schema"
+import {
+  ZERO_BI,
+  ONE_BI,
+  ZERO_BD,
+  DECIMAL_PRECISION_BD,
+  GLOBAL_STATS_ID,
+  ACTIVE_TROVE_INDEX_ID,
+  RISK_LEVEL_UNKNOWN,
+  RISK_LEVEL_THRESHOLDS,
+  TROVE_RATIO_BAND_STEP
+} from "../utils/constants"
+import {
+  calculateCollateralRatio,
+  clamp
+} from "../utils/helpers"
+import { getOrCreateProtocolStats, updateTotalCollateralRatio } from "../core/protocol-stats"
+import { updateTrovePendingRewards } from "./trove-rewards"
+
+// Smallest collateral/debt ratio given its own band; thinner troves share it
+const MIN_BAND_RATIO: f64 = 0.000000001
+
+/**
+ * Update the price-dependent trove figures (USD collateral ratio and derived risk)
+ * Without an oracle price the trove keeps its UNKNOWN risk level
+ */
+export function updateTrovePriceAnalytics(trove: Trove, price: BigInt, timestamp: BigInt): void {
+  if (price.equals(ZERO_BI)) return
+  let wasAboveLiquidation = trove.priceUsed.equals(ZERO_BI) || trove.safetyMargin.gt(ZERO_BD)
+  trove.priceUsed = price
+  trove.pricedAtTimestamp = timestamp
+  
+  // Calculate current collateral ratio (pending redistribution rewards included)
+  trove.collateralRatio = calculateCollateralRatio(trove.entireCollateral, trove.entireDebt, price)
+  
+  // Update lowest collateral ratio
+  if (trove.collateralRatio.lt(trove.lowestCollateralRatio)) {
+    trove.lowestCollateralRatio = trove.collateralRatio
+  }
+  
+  // Calculate health score (0-100, higher is better)
+  trove.healthScore = calculateTroveHealthScore(trove.collateralRatio)
+  
+  // Classify risk level
+  trove.riskLevel = classifyTroveRiskLevel(trove.collateralRatio)
+  
+  // Calculate liquidation price (FIL/USD price at which CR = 110%)
+  if (trove.entireDebt.gt(ZERO_BI) && trove.entireCollateral.gt(ZERO_BI)) {
+    let minCR = BigDecimal.fromString("1.1") // 110%
+    trove.liquidationPrice = trove.entireDebt.toBigDecimal().times(minCR).div(trove.entireCollateral.toBigDecimal())
+  } else {
+    trove.liquidationPrice = ZERO_BD
+  }
+  
+  // Calculate safety margin (how far from liquidation)
+  let liquidationCR = BigDecimal.fromString("110")
+  if (trove.collateralRatio.gt(liquidationCR)) {
+    trove.safetyMargin = trove.collateralRatio.minus(liquidationCR)
+  } else {
+    trove.safetyMargin = ZERO_BD
+    if (wasAboveLiquidation) {
+      trove.riskEvents = trove.riskEvents.plus(BigInt.fromI32(1)) // Near liquidation event
+    }
+  }
+}
+
+/**
+ * Calculate trove health score (0-100)
+ */
+function calculateTroveHealthScore(collateralRatio: BigDecimal): BigDecimal {
+  if (collateralRatio.lt(BigDecimal.fromString("110"))) {
+    return ZERO_BD // Critical - at or below liquidation threshold
+  } else if (collateralRatio.lt(BigDecimal.fromString("125"))) {
+    return BigDecimal.fromString("25") // Poor - very risky
+  } else if (collateralRatio.lt(BigDecimal.fromString("150"))) {
+    return BigDecimal.fromString("50") // Fair - moderate risk
+  } else if (collateralRatio.lt(BigDecimal.fromString("200"))) {
+    return BigDecimal.fromString("75") // Good - low risk
+  } else {
+    return BigDecimal.fromString("100") // Excellent - very safe
+  }
+}
+
+/**
+ * Classify trove risk level
+ */
+function classifyTroveRiskLevel(collateralRatio: BigDecimal): string {
+  if (collateralRatio.gt(BigDecimal.fromString("200"))) {
+    return "VERY_LOW"
+  } else if (collateralRatio.gt(BigDecimal.fromString("150"))) {
+    return "LOW"
+  } else if (collateralRatio.gt(BigDecimal.fromString("125"))) {
+    return "MEDIUM"
+  } else if (collateralRatio.gt(BigDecimal.fromString("110"))) {
+    return "HIGH"
+  } else if (collateralRatio.gt(BigDecimal.fromString("105"))) {
+    return "VERY_HIGH"
+  } else {
+    return "CRITICAL"
+  }
+}
+
+/**
+ * Calculate comprehensive trove performance score
+ */
+export function calculateTrovePerformanceScore(trove: Trove): BigDecimal {
+  let scores: BigDecimal[] = []
+  let weights: BigDecimal[] = []
+  
+  // Health score (40% weight)
+  scores.push(trove.healthScore)
+  weights.push(BigDecimal.fromString("0.4"))
+  
+  // Stability score based on lowest CR (30% weight)
+  let stabilityScore = trove.lowestCollateralRatio.gt(BigDecimal.fromString("150")) ? 
+    BigDecimal.fromString("100") : 
+    trove.lowestCollateralRatio.div(BigDecimal.fromString("1.5"))
+  scores.push(clamp(stabilityScore, ZERO_BD, BigDecimal.fromString("100")))
+  weights.push(BigDecimal.fromString("0.3"))
+  
+  // Risk events penalty (20% weight)
+  let riskPenalty = trove.riskEvents.toBigDecimal().times(BigDecimal.fromString("10"))
+  let riskScore = clamp(BigDecimal.fromString("100").minus(riskPenalty), ZERO_BD, BigDecimal.fromString("100"))
+  scores.push(riskScore)
+  weights.push(BigDecimal.fromString("0.2"))
+  
+  // Age bonus (10% weight)
+  let ageBonus = clamp(trove.daysOpen.toBigDecimal().div(BigDecimal.fromString("30")), ZERO_BD, BigDecimal.fromString("100"))
+  scores.push(ageBonus)
+  weights.push(BigDecimal.fromString("0.1"))
+  
+  // Calculate weighted average
+  let totalWeightedScore = ZERO_BD
+  let totalWeight = ZERO_BD
+  
+  for (let i = 0; i < scores.length; i++) {
+    totalWeightedScore = totalWeightedScore.plus(scores[i].times(weights[i]))
+    totalWeight = totalWeight.plus(weights[i])
+  }
+  
+  return totalWeight.gt(ZERO_BD) ? totalWeightedScore.div(totalWeight) : BigDecimal.fromString("50")
+}
+
+/**
+ * Calculate ML-based liquidation risk score
+ */
+export function calculateLiquidationRiskScore(trove: Trove): BigDecimal {
+  // Simplified ML model - would be enhanced with more sophisticated algorithms
+  let riskFactors: BigDecimal[] = []
+  
+  // Current CR factor
+  let crRisk = BigDecimal.fromString("110").div(trove.collateralRatio.plus(BigDecimal.fromString("1")))
+  riskFactors.push(clamp(crRisk.times(BigDecimal.fromString("100")), ZERO_BD, BigDecimal.fromString("100")))
+  
+  // Historical risk events
+  let eventRisk = trove.riskEvents.toBigDecimal().times(BigDecimal.fromString("15"))
+  riskFactors.push(clamp(eventRisk, ZERO_BD, BigDecimal.fromString("100")))
+  
+  // Volatility risk (based on operations frequency)
+  let volatilityRisk = trove.operationCount.gt(ZERO_BI) ? 
+    trove.operationCount.toBigDecimal().div(trove.daysOpen.plus(BigInt.fromI32(1)).toBigDecimal()).times(BigDecimal.fromString("10")) :
+    ZERO_BD
+  riskFactors.push(clamp(volatilityRisk, ZERO_BD, BigDecimal.fromString("100")))
+  
+  // Calculate average risk score
+  let totalRisk = ZERO_BD
+  for (let i = 0; i < riskFactors.length; i++) {
+    totalRisk = totalRisk.plus(riskFactors[i])
+  }
+  
+  return riskFactors.length > 0 ? totalRisk.div(BigDecimal.fromString(riskFactors.length.toString())) : BigDecimal.fromString("50")
+}
+
+/**
+ * Generate optimization suggestions
+ */
+export function generateOptimizationSuggestions(trove: Trove): string[] {
+  let suggestions: string[] = []
+  
+  if (trove.collateralRatio.lt(BigDecimal.fromString("150"))) {
+    suggestions.push("Consider adding more collateral to improve safety margin")
+  }
+  
+  if (trove.collateralRatio.gt(BigDecimal.fromString("300"))) {
+    suggestions.push("Consider optimizing capital efficiency by borrowing more or withdrawing collateral")
+  }
+  
+  if (trove.riskEvents.gt(BigInt.fromI32(2))) {
+    suggestions.push("Consider maintaining higher collateral ratios to avoid future risk events")
+  }
+  
+  if (trove.operationCount.gt(BigInt.fromI32(20)) && trove.daysOpen.lt(BigInt.fromI32(30))) {
+    suggestions.push("High operation frequency detected - consider longer-term position management")
+  }
+  
+  return suggestions
+}
+
+/**
+ * Re-price a trove and refresh every figure derived from its collateral ratio
+ */
+export function repriceTrove(trove: Trove, price: BigInt, timestamp: BigInt): void {
+  updateTrovePriceAnalytics(trove, price, timestamp)
+  trove.performanceScore = calculateTrovePerformanceScore(trove)
+  trove.liquidationRiskScore = calculateLiquidationRiskScore(trove)
+  trove.optimizationSuggestions = generateOptimizationSuggestions(trove)
+}
+
+// ===========================================
+// RISK BUCKETS AND RATIO BANDS
+// ===========================================
+
+/**
+ * Load a risk bucket, creating it on first use
+ */
+function getOrCreateRiskBucket(riskLevel: string, timestamp: BigInt): RiskBucket {
+  let bucket = RiskBucket.load(riskLevel)
+  if (bucket == null) {
+    bucket = new RiskBucket(riskLevel)
+    bucket.stats = GLOBAL_STATS_ID
+    bucket.riskLevel = riskLevel
+    bucket.troveCount = ZERO_BI
+    bucket.totalDebt = ZERO_BI
+    bucket.lastUpdateTimestamp = timestamp
+  }
+  return bucket
+}
+
+/**
+ * Add to a risk bucket's totals (negative deltas take from it)
+ */
+function adjustRiskBucket(riskLevel: string, countDelta: BigInt, debtDelta: BigInt, timestamp: BigInt): void {
+  let bucket = getOrCreateRiskBucket(riskLevel, timestamp)
+  bucket.troveCount = bucket.troveCount.plus(countDelta)
+  bucket.totalDebt = bucket.totalDebt.plus(debtDelta)
+  bucket.lastUpdateTimestamp = timestamp
+  bucket.save()
+}
+
+/**
+ * Take a trove out of the risk bucket it is counted in
+ */
+function uncountRiskBucket(trove: Trove, timestamp: BigInt): void {
+  let bucketId = trove.riskBucket
+  if (bucketId !== null) {
+    adjustRiskBucket(bucketId, ONE_BI.neg(), trove.ratioBandDebt.neg(), timestamp)
+  }
+  trove.riskBucket = null
+}
+
+/**
+ * Count a banded trove in the risk bucket of its own level; unpriced troves are left out
+ */
+function countRiskBucket(trove: Trove, timestamp: BigInt): void {
+  if (trove.riskLevel == RISK_LEVEL_UNKNOWN) return
+  adjustRiskBucket(trove.riskLevel, ONE_BI, trove.ratioBandDebt, timestamp)
+  trove.riskBucket = trove.riskLevel
+}
+
+/**
+ * FIL/USD price as a float, for band arithmetic
+ */
+function priceToF64(price: BigInt): f64 {
+  return parseFloat(price.toBigDecimal().div(DECIMAL_PRECISION_BD).toString())
+}
+
+/**
+ * Band index of a collateral/debt ratio (FIL per USDFC)
+ */
+function ratioToBandIndex(ratio: f64): i32 {
+  // Troves this thin are far past liquidation; keep the logarithm finite
+  let bounded = ratio < MIN_BAND_RATIO ? MIN_BAND_RATIO : ratio
+  return <i32>Math.floor(Math.log(bounded) / Math.log(TROVE_RATIO_BAND_STEP))
+}
+
+/**
+ * Band index of a trove's entire collateral and debt
+ */
+function troveBandIndex(trove: Trove): i32 {
+  let ratio = trove.entireCollateral.toBigDecimal().div(trove.entireDebt.toBigDecimal())
+  return ratioToBandIndex(parseFloat(ratio.toString()))
+}
+
+/**
+ * Load a ratio band, creating it on first use
+ */
+function getOrCreateRatioBand(bandIndex: i32, timestamp: BigInt): TroveRatioBand {
+  let band = TroveRatioBand.load(bandIndex.toString())
+  if (band == null) {
+    band = new TroveRatioBand(bandIndex.toString())
+    band.bandIndex = bandIndex
+    band.lowerRatio = BigDecimal.fromString(Math.pow(TROVE_RATIO_BAND_STEP, <f64>bandIndex).toString())
+    band.troveCount = ZERO_BI
+    band.totalDebt = ZERO_BI
+    band.totalCollateral = ZERO_BI
+
+    // Repricing passes never look beyond the bands in use
+    let index = getOrCreateActiveTroveIndex()
+    if (!index.hasBands || bandIndex < index.minBandIndex) index.minBandIndex = bandIndex
+    if (!index.hasBands || bandIndex > index.maxBandIndex) index.maxBandIndex = bandIndex
+    index.hasBands = true
+    index.save()
+  }
+  band.lastUpdateTimestamp = timestamp
+  return band
+}
+
+/**
+ * Add to a band's totals and save it (negative deltas take from it)
+ */
+function adjustRatioBand(
+  band: TroveRatioBand,
+  countDelta: BigInt,
+  debtDelta: BigInt,
+  collateralDelta: BigInt,
+  timestamp: BigInt
+): void {
+  band.troveCount = band.troveCount.plus(countDelta)
+  band.totalDebt = band.totalDebt.plus(debtDelta)
+  band.totalCollateral = band.totalCollateral.plus(collateralDelta)
+  band.lastUpdateTimestamp = timestamp
+  band.save()
+}
+
+/**
+ * Link a trove at the head of a band's trove list
+ */
+function linkBandTrove(band: TroveRatioBand, trove: Trove): void {
+  let headId = band.firstTrove
+  if (headId !== null) {
+    let head = Trove.load(headId)
+    if (head != null) {
+      head.previousInBand = trove.id
+      head.save()
+    }
+  }
+  trove.previousInBand = null
+  trove.nextInBand = headId
+  band.firstTrove = trove.id
+}
+
+/**
+ * Unlink a trove from a band's trove list
+ */
+function unlinkBandTrove(band: TroveRatioBand, trove: Trove): void {
+  let previousId = trove.previousInBand
+  let nextId = trove.nextInBand
+  if (previousId !== null) {
+    let previous = Trove.load(previousId)
+    if (previous != null) {
+      previous.nextInBand = nextId
+      previous.save()
+    }
+  } else {
+    band.firstTrove = nextId
+  }
+  if (nextId !== null) {
+    let next = Trove.load(nextId)
+    if (next != null) {
+      next.previousInBand = previousId
+      next.save()
+    }
+  }
+  trove.previousInBand = null
+  trove.nextInBand = null
+}
+
+/**
+ * Count a trove in the band of its entire collateral/debt and in the risk bucket of its level
+ * Only active troves with debt are counted; anything else is taken out of its band and bucket
+ * Call before saving the trove
+ */
+export function syncTroveRatioBand(trove: Trove, timestamp: BigInt): void {
+  let counted = trove.status == "ACTIVE" && trove.entireDebt.gt(ZERO_BI)
+  let bandIndex = counted ? troveBandIndex(trove) : 0
+  let previousBandId = trove.ratioBand
+  let sameBand = counted && previousBandId !== null && previousBandId == bandIndex.toString()
+
+  uncountRiskBucket(trove, timestamp)
+  if (previousBandId !== null) {
+    let previousBand = TroveRatioBand.load(previousBandId)
+    if (previousBand != null) {
+      if (!sameBand) unlinkBandTrove(previousBand, trove)
+      adjustRatioBand(
+        previousBand,
+        ONE_BI.neg(),
+        trove.ratioBandDebt.neg(),
+        trove.ratioBandCollateral.neg(),
+        timestamp
+      )
+    }
+  }
+  trove.ratioBand = null
+  trove.ratioBandDebt = ZERO_BI
+  trove.ratioBandCollateral = ZERO_BI
+
+  if (!counted) return
+
+  let band = getOrCreateRatioBand(bandIndex, timestamp)
+  if (!sameBand) linkBandTrove(band, trove)
+  adjustRatioBand(band, ONE_BI, trove.entireDebt, trove.entireCollateral, timestamp)
+  trove.ratioBand = band.id
+  trove.ratioBandDebt = trove.entireDebt
+  trove.ratioBandCollateral = trove.entireCollateral
+  countRiskBucket(trove, timestamp)
+}
+
+/**
+ * Re-price every trove in a range of bands, moving those that changed level between risk buckets
+ */
+function repriceBandTroves(fromIndex: i32, toIndex: i32, price: BigInt, timestamp: BigInt): i32 {
+  let repriced = 0
+  for (let bandIndex = fromIndex; bandIndex <= toIndex; bandIndex++) {
+    let band = TroveRatioBand.load(bandIndex.toString())
+    if (band == null) continue
+
+    let troveId = band.firstTrove
+    while (troveId !== null) {
+      let trove = Trove.load(troveId)
+      if (trove == null) break
+
+      let previousLevel = trove.riskLevel
+      repriceTrove(trove, price, timestamp)
+      if (trove.riskLevel != previousLevel) {
+        uncountRiskBucket(trove, timestamp)
+        countRiskBucket(trove, timestamp)
+      }
+      trove.save()
+
+      troveId = trove.nextInBand
+      repriced++
+    }
+  }
+  return repriced
+}
+
+/**
+ * Move the troves' risk levels to a new oracle price
+ * A trove changes level only if a threshold's edge moved across its band, so only the troves
+ * in the bands between each threshold's old and new edge are re-priced
+ */
+export function repriceRiskBands(price: BigInt, timestamp: BigInt): void {
+  let index = getOrCreateActiveTroveIndex()
+  let previousPrice = index.lastRepricedPrice
+  if (price.equals(ZERO_BI) || previousPrice.equals(price)) return
+
+  index.lastRepricedPrice = price
+  index.lastRepricedTimestamp = timestamp
+  index.save()
+  if (!index.hasBands) return
+
+  let repriced = 0
+  if (previousPrice.equals(ZERO_BI)) {
+    // First price: no trove has been priced yet
+    repriced = repriceBandTroves(index.minBandIndex, index.maxBandIndex, price, timestamp)
+  } else {
+    let previous = priceToF64(previousPrice)
+    let current = priceToF64(price)
+
+    // Thresholds fall in order, so their band ranges come highest first; overlapping ones are merged
+    let pendingFrom = 0
+    let pendingTo = 0
+    let hasPending = false
+    for (let i = 0; i < RISK_LEVEL_THRESHOLDS.length; i++) {
+      // Ratio at which a trove sits exactly on the threshold, before and after
+      let threshold = RISK_LEVEL_THRESHOLDS[i] / 100
+      let previousEdge = ratioToBandIndex(threshold / previous)
+      let currentEdge = ratioToBandIndex(threshold / current)
+
+      // One band of slack on each side absorbs float rounding at the edges
+      let fromIndex = (previousEdge < currentEdge ? previousEdge : currentEdge) - 1
+      let toIndex = (previousEdge > currentEdge ? previousEdge : currentEdge) + 1
+      if (fromIndex < index.minBandIndex) fromIndex = index.minBandIndex
+      if (toIndex > index.maxBandIndex) toIndex = index.maxBandIndex
+      if (fromIndex > toIndex) continue
+
+      if (hasPending && toIndex >= pendingFrom - 1) {
+        if (fromIndex < pendingFrom) pendingFrom = fromIndex
+        if (toIndex > pendingTo) pendingTo = toIndex
+        continue
+      }
+      if (hasPending) repriced += repriceBandTroves(pendingFrom, pendingTo, price, timestamp)
+      pendingFrom = fromIndex
+      pendingTo = toIndex
+      hasPending = true
+    }
+    if (hasPending) repriced += repriceBandTroves(pendingFrom, pendingTo, price, timestamp)
+  }
+
+  log.info("Re-priced {} troves in ratio bands crossing a risk level at FIL price {}", [
+    repriced.toString(),
+    price.toString()
+  ])
+}
+
+// ===========================================
+// ACTIVE TROVE LIST
+// ===========================================
+
+/**
+ * Load the active trove index, creating it on first use
+ */
+function getOrCreateActiveTroveIndex(): ActiveTroveIndex {
+  let index = ActiveTroveIndex.load(ACTIVE_TROVE_INDEX_ID)
+  if (index == null) {
+    index = new ActiveTroveIndex(ACTIVE_TROVE_INDEX_ID)
+    index.troveCount = 0
+    index.hasBands = false
+    index.minBandIndex = 0
+    index.maxBandIndex = 0
+    index.lastRepricedPrice = ZERO_BI
+    index.lastRepricedTimestamp = ZERO_BI
+  }
+  return index
+}
+
+/**
+ * Link a trove at the head of the active list when it becomes active
+ * Call after saving the trove; it is saved again with its links
+ */
+export function addActiveTrove(trove: Trove): void {
+  let index = getOrCreateActiveTroveIndex()
+  let headId = index.head
+  if (trove.previousActiveTrove !== null) return
+  if (headId !== null) {
+    if (headId.equals(trove.id)) return
+    let head = Trove.load(headId)
+    if (head != null) {
+      head.previousActiveTrove = trove.id
+      head.save()
+    }
+  }
+
+  trove.nextActiveTrove = headId
+  trove.save()
+  index.head = trove.id
+  index.troveCount = index.troveCount + 1
+  index.save()
+}
+
+/**
+ * Unlink a trove from the active list when it closes
+ * Call after saving the trove; it is saved again without its links
+ */
+export function removeActiveTrove(trove: Trove): void {
+  let index = getOrCreateActiveTroveIndex()
+  let headId = index.head
+  let previousId = trove.previousActiveTrove
+  let nextId = trove.nextActiveTrove
+  let isHead = headId !== null && headId.equals(trove.id)
+  if (!isHead && previousId === null) return
+
+  if (previousId !== null) {
+    let previous = Trove.load(previousId)
+    if (previous != null) {
+      previous.nextActiveTrove = nextId
+      previous.save()
+    }
+  } else {
+    index.head = nextId
+  }
+  if (nextId !== null) {
+    let next = Trove.load(nextId)
+    if (next != null) {
+      next.previousActiveTrove = previousId
+      next.save()
+    }
+  }
+
+  trove.previousActiveTrove = null
+  trove.nextActiveTrove = null
+  trove.save()
+  index.troveCount = index.troveCount - 1
+  index.save()
+}
+
+/**
+ * Refresh pending rewards of every active trove after a redistribution, then re-rate and re-band them
+ * Redistributions change each trove's ratio by its own stake, so this walks the active list
+ */
+export function redistributeToActiveTroves(
+  state: RedistributionState,
+  price: BigInt,
+  blockNumber: BigInt,
+  timestamp: BigInt
+): void {
+  let stats = getOrCreateProtocolStats()
+  let priced = price.gt(ZERO_BI)
+  let count = 0
+
+  let troveId = getOrCreateActiveTroveIndex().head
+  while (troveId !== null) {
+    let trove = Trove.load(troveId)
+    if (trove == null) break
+
+    // Redistributed debt and collateral move into the troves' entire totals
+    let previousEntireDebt = trove.entireDebt
+    let previousEntireCollateral = trove.entireCollateral
+    updateTrovePendingRewards(trove, state)
+    stats.systemDebt = stats.systemDebt.plus(trove.entireDebt.minus(previousEntireDebt))
+    stats.systemCollateral = stats.systemCollateral.plus(trove.entireCollateral.minus(previousEntireCollateral))
+
+    if (priced) {
+      repriceTrove(trove, price, timestamp)
+    }
+    syncTroveRatioBand(trove, timestamp)
+    trove.save()
+
+    troveId = trove.nextActiveTrove
+    count++
+  }
+
+  updateTotalCollateralRatio(stats, price, blockNumber, timestamp)
+  stats.lastUpdateBlock = blockNumber
+  stats.lastUpdateTimestamp = timestamp
+  stats.save()
+
+  log.info("Applied redistribution to {} active troves", [count.toString()])
+}
@@ -47,6 +47,7 @@ export const TX_CATEGORY_LIQUIDATION = "LIQUIDATION"
 export const TX_CATEGORY_REDEMPTION = "REDEMPTION"
 export const TX_CATEGORY_STABILITY_OPERATION = "STABILITY_OPERATION"
 export const TX_CATEGORY_STAKING_OPERATION = "STAKING_OPERATION"
+export const TX_CATEGORY_PRICE_UPDATE = "PRICE_UPDATE"
 export const TX_CATEGORY_DEX_SWAP = "DEX_SWAP"
 export const TX_CATEGORY_DEX_LIQUIDITY = "DEX_LIQUIDITY"
 export const TX_CATEGORY_BRIDGE_TRANSFER = "BRIDGE_TRANSFER"
@@ -143,9 +144,69 @@ export const CR_HIGH_THRESHOLD = BigDecimal.fromString("110")      // 110-125%
 export const CR_VERY_HIGH_THRESHOLD = BigDecimal.fromString("105") // 105-110%
 export const CR_CRITICAL_THRESHOLD = BigDecimal.fromString("105")  // <105%
 
+// Risk levels in schema order (RiskLevel enum)
+export const RISK_LEVELS: string[] = [
+  "VERY_LOW",
+  "LOW",
+  "MEDIUM",
+  "HIGH",
+  "VERY_HIGH",
+  "CRITICAL"
+]
+
+// Risk level of a trove priced before any oracle price is known
+export const RISK_LEVEL_UNKNOWN = "UNKNOWN"
+
+// Collateral ratio thresholds (%) between consecutive RISK_LEVELS
+export const RISK_LEVEL_THRESHOLDS: f64[] = [200, 150, 125, 110, 105]
+
+// Width of a trove ratio band: each band spans 0.5% of collateral/debt
+export const TROVE_RATIO_BAND_STEP: f64 = 1.005
+
+// BorrowerOperations operation enum, indexed by its uint8 value
+export const BORROWER_OPERATIONS: string[] = [
+  "OPEN_TROVE",
+  "CLOSE_TROVE",
+  "ADJUST_TROVE"
+]
+
+// TroveManager operation enum, indexed by its uint8 value
+export const TROVE_MANAGER_OPERATIONS: string[] = [
+  "APPLY_PENDING_REWARDS",
+  "LIQUIDATE_IN_NORMAL_MODE",
+  "LIQUIDATE_IN_RECOVERY_MODE",
+  "REDEEM_COLLATERAL"
+]
+
+// PriceFeed status enum, indexed by its uint8 value (Chainlink primary, Tellor fallback)
+export const ORACLE_STATUSES: string[] = [
+  "CHAINLINK_WORKING",
+  "USING_TELLOR_CHAINLINK_UNTRUSTED",
+  "BOTH_ORACLES_UNTRUSTED",
+  "USING_TELLOR_CHAINLINK_FROZEN",
+  "USING_CHAINLINK_TELLOR_UNTRUSTED"
+]
+export const ORACLE_STATUS_WORKING = "CHAINLINK_WORKING"
+
+// Price candle intervals (CandleInterval enum) and their lengths in seconds
+export const CANDLE_INTERVALS: string[] = ["HOUR", "FOUR_HOURS", "DAY"]
+export const CANDLE_INTERVAL_SECONDS: i32[] = [3600, 14400, 86400]
+
 // Protocol constants
 export const MINIMUM_COLLATERAL_RATIO = BigDecimal.fromString("110") // 110% minimum CR
 export const LIQUIDATION_THRESHOLD = BigDecimal.fromString("110")    // Liquidation at 110% CR
+export const CRITICAL_COLLATERAL_RATIO = BigDecimal.fromString("150") // Recovery Mode below 150% TCR
+
+// Fee parameters (fractions, as in TroveManager)
+export const BORROWING_FEE_FLOOR = BigDecimal.fromString("0.005")   // 0.5% minimum borrowing fee
+export const MAX_BORROWING_FEE = BigDecimal.fromString("0.05")      // 5% maximum borrowing fee
+export const REDEMPTION_FEE_FLOOR = BigDecimal.fromString("0.005")  // 0.5% minimum redemption fee
+
+// Stability Pool parameters (as in StabilityPool)
+export const SP_SCALE_FACTOR = BigInt.fromI32(10).pow(9)          // P is rescaled by 1e9 when it gets too small
+
+// Oracle vs DEX price monitoring
+export const PRICE_DEVIATION_ALERT_THRESHOLD = BigDecimal.fromString("3") // Alert at a 3% oracle/pool gap
 
 // ===========================================
 // ENTITY IDs
@@ -155,6 +216,14 @@ export const LIQUIDATION_THRESHOLD = BigDecimal.fromString("110")    // Liquidat
 export const GLOBAL_STATS_ID = "global"
 export const PROTOCOL_STATS_ID = "global"
 export const ECOSYSTEM_STATS_ID = "global"
+export const ORACLE_STATE_ID = "FIL-USD"
+export const ACTIVE_TROVE_INDEX_ID = "active"
+export const REDISTRIBUTION_STATE_ID = "global"
+export const PENDING_REDEMPTION_INDEX_ID = "pending"
+export const PENDING_LIQUIDATION_INDEX_ID = "pending"
+export const STABILITY_POOL_STATE_ID = "global"
+export const STAKING_STATE_ID = "global"
+export const PRICE_DEVIATION_MONITOR_ID = "FIL-USD"
 
 // ===========================================
 // DEX & ECOSYSTEM CONSTANTS  
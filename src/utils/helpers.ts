@@ -83,13 +83,16 @@ export function calculatePercentage(numerator: BigInt, denominator: BigInt): Big
 }
 
 /**
- * Calculate collateral ratio (collateral / debt * 100)
+ * Calculate collateral ratio in USD terms (collateral * price / debt * 100)
+ * Price is the FIL/USD oracle price with 18 decimals
  */
-export function calculateCollateralRatio(collateral: BigInt, debt: BigInt): BigDecimal {
+export function calculateCollateralRatio(collateral: BigInt, debt: BigInt, price: BigInt): BigDecimal {
   if (debt.equals(ZERO_BI)) {
     return BigDecimal.fromString("99999") // Infinite ratio (no debt)
   }
   return collateral.toBigDecimal()
+    .times(price.toBigDecimal())
+    .div(DECIMAL_PRECISION_BD)
     .div(debt.toBigDecimal())
     .times(BigDecimal.fromString("100"))
 }
@@ -123,6 +126,13 @@ export function clamp(value: BigDecimal, min: BigDecimal, max: BigDecimal): BigD
   return value
 }
 
+/**
+ * Absolute value of a BigDecimal
+ */
+export function absBD(value: BigDecimal): BigDecimal {
+  return value.lt(ZERO_BD) ? value.neg() : value
+}
+
 /**
  * Calculate compound score (weighted average)
  */
@@ -0,0 +1,115 @@
+import { assert, afterEach, beforeAll, clearStore, createMockedFunction, describe, test } from "matchstick-as/assembly/index";
+import { Address, BigInt, ethereum } from "@graphprotocol/graph-ts";
+import {
+  getOrCreatePool,
+  resolveSwapDirection,
+  USDFC_ADDRESS,
+  WFIL_ADDRESS,
+  AXLUSDC_ADDRESS,
+  USDFC_WFIL_POOL_ADDRESS,
+  USDFC_AXLUSDC_POOL_ADDRESS
+} from "../src/ecosystem/price-utils";
+
+const WAD = BigInt.fromI32(10).pow(18);
+const AXLUSDC_UNIT = BigInt.fromI32(10).pow(6);
+
+function tokens(amount: i32, unit: BigInt): BigInt {
+  return BigInt.fromI32(amount).times(unit);
+}
+
+function mockPoolState(pool: Address, tokenA: Address, tokenB: Address): void {
+  createMockedFunction(pool, "slot0", "slot0():(uint160,int24,uint16,uint16,uint16,uint8,bool)")
+    .returns([
+      ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(0)),
+      ethereum.Value.fromI32(0),
+      ethereum.Value.fromI32(0),
+      ethereum.Value.fromI32(0),
+      ethereum.Value.fromI32(0),
+      ethereum.Value.fromI32(0),
+      ethereum.Value.fromBoolean(false)
+    ]);
+  createMockedFunction(pool, "liquidity", "liquidity():(uint128)")
+    .returns([ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(0))]);
+  createMockedFunction(tokenA, "balanceOf", "balanceOf(address):(uint256)")
+    .withArgs([ethereum.Value.fromAddress(pool)])
+    .returns([ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(0))]);
+  createMockedFunction(tokenB, "balanceOf", "balanceOf(address):(uint256)")
+    .withArgs([ethereum.Value.fromAddress(pool)])
+    .returns([ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(0))]);
+}
+
+describe("resolveSwapDirection", () => {
+  beforeAll(() => {
+    mockPoolState(USDFC_WFIL_POOL_ADDRESS, USDFC_ADDRESS, WFIL_ADDRESS);
+    mockPoolState(USDFC_AXLUSDC_POOL_ADDRESS, USDFC_ADDRESS, AXLUSDC_ADDRESS);
+  });
+
+  afterEach(() => {
+    clearStore();
+  });
+
+  describe("USDFC/WFIL pool (WFIL is token0)", () => {
+    test("orders WFIL before USDFC", () => {
+      const pool = getOrCreatePool(USDFC_WFIL_POOL_ADDRESS, BigInt.fromI32(0), BigInt.fromI32(0))!;
+
+      assert.bytesEquals(WFIL_ADDRESS, pool.token0);
+      assert.bytesEquals(USDFC_ADDRESS, pool.token1);
+      assert.assertTrue(!pool.baseTokenIsToken0);
+    });
+
+    test("WFIL in, USDFC out is a BUY", () => {
+      const pool = getOrCreatePool(USDFC_WFIL_POOL_ADDRESS, BigInt.fromI32(0), BigInt.fromI32(0))!;
+      const direction = resolveSwapDirection(pool, tokens(10, WAD), tokens(-50, WAD));
+
+      assert.bytesEquals(WFIL_ADDRESS, direction.inputToken);
+      assert.bytesEquals(USDFC_ADDRESS, direction.outputToken);
+      assert.bigIntEquals(tokens(10, WAD), direction.inputAmount);
+      assert.bigIntEquals(tokens(50, WAD), direction.outputAmount);
+      assert.assertTrue(direction.isBuy);
+    });
+
+    test("USDFC in, WFIL out is a SELL", () => {
+      const pool = getOrCreatePool(USDFC_WFIL_POOL_ADDRESS, BigInt.fromI32(0), BigInt.fromI32(0))!;
+      const direction = resolveSwapDirection(pool, tokens(-10, WAD), tokens(50, WAD));
+
+      assert.bytesEquals(USDFC_ADDRESS, direction.inputToken);
+      assert.bytesEquals(WFIL_ADDRESS, direction.outputToken);
+      assert.bigIntEquals(tokens(50, WAD), direction.inputAmount);
+      assert.bigIntEquals(tokens(10, WAD), direction.outputAmount);
+      assert.assertTrue(!direction.isBuy);
+    });
+  });
+
+  describe("USDFC/axlUSDC pool (USDFC is token0)", () => {
+    test("orders USDFC before axlUSDC", () => {
+      const pool = getOrCreatePool(USDFC_AXLUSDC_POOL_ADDRESS, BigInt.fromI32(0), BigInt.fromI32(0))!;
+
+      assert.bytesEquals(USDFC_ADDRESS, pool.token0);
+      assert.bytesEquals(AXLUSDC_ADDRESS, pool.token1);
+      assert.assertTrue(pool.baseTokenIsToken0);
+      assert.i32Equals(6, pool.token1Decimals);
+    });
+
+    test("USDFC in, axlUSDC out is a SELL", () => {
+      const pool = getOrCreatePool(USDFC_AXLUSDC_POOL_ADDRESS, BigInt.fromI32(0), BigInt.fromI32(0))!;
+      const direction = resolveSwapDirection(pool, tokens(100, WAD), tokens(-99, AXLUSDC_UNIT));
+
+      assert.bytesEquals(USDFC_ADDRESS, direction.inputToken);
+      assert.bytesEquals(AXLUSDC_ADDRESS, direction.outputToken);
+      assert.bigIntEquals(tokens(100, WAD), direction.inputAmount);
+      assert.bigIntEquals(tokens(99, AXLUSDC_UNIT), direction.outputAmount);
+      assert.assertTrue(!direction.isBuy);
+    });
+
+    test("axlUSDC in, USDFC out is a BUY", () => {
+      const pool = getOrCreatePool(USDFC_AXLUSDC_POOL_ADDRESS, BigInt.fromI32(0), BigInt.fromI32(0))!;
+      const direction = resolveSwapDirection(pool, tokens(-100, WAD), tokens(101, AXLUSDC_UNIT));
+
+      assert.bytesEquals(AXLUSDC_ADDRESS, direction.inputToken);
+      assert.bytesEquals(USDFC_ADDRESS, direction.outputToken);
+      assert.bigIntEquals(tokens(101, AXLUSDC_UNIT), direction.inputAmount);
+      assert.bigIntEquals(tokens(100, WAD), direction.outputAmount);
+      assert.assertTrue(direction.isBuy);
+    });
+  });
+});